@@ -1,4 +1,4 @@
-import express, { Application, Request, Response } from 'express';
+import express, { Application, NextFunction, Request, Response } from 'express';
 import productRoutes from './routes/productRoutes';
 import userRoutes from './routes/userRoutes';
 import orderRoutes from './routes/orderRoutes';
@@ -8,16 +8,32 @@ import reviewRoutes from './routes/reviewRoutes';
 import paymentRoutes from './routes/paymentRoutes';
 import shippingRoutes from './routes/shippingRoutes';
 import analyticsRoutes from './routes/analyticsRoutes';
+import adminRoutes from './routes/adminRoutes';
 import { initializeDatabase } from './utils/database';
+import { seedDatabase } from './utils/fixtures';
+import { ensureBuiltInRoles } from './utils/permissions';
+import { normalizeStoredAddressBooks } from './utils/addressBook';
+import { checkSigningSecret } from './utils/tokens';
+import { checkEncryptionKey } from './utils/secretBox';
 import { logRequest } from './middleware/logger';
+import { attachRequestContext } from './middleware/requestContext';
+import { authenticate, requireAuth, requireTwoFactor, requirePermission } from './middleware/auth';
 
 const app: Application = express();
 const PORT: number = parseInt(process.env.PORT || '3000', 10);
+const parseJsonBody = express.json();
 
-app.use(express.json());
+app.use(skipSnapshotUploads(parseJsonBody));
 app.use(logRequest);
+app.use(attachRequestContext);
+app.use(authenticate);
 
 initializeDatabase();
+checkSigningSecret();
+checkEncryptionKey();
+seedDatabase();
+ensureBuiltInRoles();
+normalizeStoredAddressBooks();
 
 app.use('/api/products', productRoutes);
 app.use('/api/users', userRoutes);
@@ -27,13 +43,22 @@ app.use('/api/categories', categoryRoutes);
 app.use('/api/reviews', reviewRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/shipping', shippingRoutes);
-app.use('/api/analytics', analyticsRoutes);
+app.use('/api/analytics', requirePermission('analytics:read'), analyticsRoutes);
+app.use('/api/admin', requireAuth, requireTwoFactor, adminRoutes);
 
 app.get('/api/health', (req: Request, res: Response) => {
   const status = checkHealthStatus();
   res.json(status);
 });
 
+function skipSnapshotUploads(parser: express.RequestHandler): express.RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => (isSnapshotUpload(req) ? next() : parser(req, res, next));
+}
+
+function isSnapshotUpload(req: Request): boolean {
+  return req.method === 'POST' && req.path === '/api/admin/snapshot';
+}
+
 function checkHealthStatus(): HealthStatus {
   const dbStatus = checkDatabaseConnection();
   const cacheStatus = checkCacheConnection();
@@ -0,0 +1,49 @@
+import { initializeDatabase, getStorageDriver } from '../utils/database';
+import { loadFixtureSet, resolveFixtureSet, getFixturesDirectory } from '../utils/fixtures';
+import { ensureBuiltInRoles } from '../utils/permissions';
+
+interface SeedOptions {
+  set: string;
+  count: number;
+  dir: string;
+}
+
+function parseSeedOptions(argv: string[]): SeedOptions {
+  const args = parseArguments(argv);
+  return {
+    set: args.set || 'demo',
+    count: parseInt(args.count || '1000', 10),
+    dir: args.dir || getFixturesDirectory()
+  };
+}
+
+function parseArguments(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+function runSeed(options: SeedOptions): void {
+  if (isNaN(options.count) || options.count < 1) {
+    throw new Error('--count must be a positive integer');
+  }
+  initializeDatabase();
+  ensureBuiltInRoles();
+  if (getStorageDriver() === 'memory') {
+    console.warn('DB_DRIVER is "memory"; seeded data will be discarded when this command exits');
+  }
+  const set = resolveFixtureSet(options.set, options.count, options.dir);
+  const result = loadFixtureSet(set);
+  console.log(`Fixture set "${options.set}": ${result.inserted} inserted, ${result.updated} updated`);
+  console.log(JSON.stringify(result.byCollection));
+}
+
+try {
+  runSeed(parseSeedOptions(process.argv.slice(2)));
+} catch (error) {
+  console.error(`Seeding failed: ${(error as Error).message}`);
+  process.exit(1);
+}
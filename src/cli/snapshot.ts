@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { initializeDatabase } from '../utils/database';
+import { exportSnapshot, parseSnapshot, importSnapshot } from '../utils/snapshots';
+import { SnapshotImportMode } from '../types';
+
+interface SnapshotOptions {
+  command: string;
+  file: string;
+  mode: SnapshotImportMode;
+}
+
+function parseSnapshotOptions(argv: string[]): SnapshotOptions {
+  const args = parseArguments(argv);
+  const command = argv.find(arg => !arg.startsWith('--')) || '';
+  return {
+    command,
+    file: command === 'export' ? args.out || 'data/snapshot.json.gz' : args.in || '',
+    mode: (args.mode || 'replace') as SnapshotImportMode
+  };
+}
+
+function parseArguments(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+function runSnapshot(options: SnapshotOptions): void {
+  switch (options.command) {
+    case 'export':
+      return runExport(options.file);
+    case 'import':
+      return runImport(options.file, options.mode);
+    default:
+      throw new Error('Usage: snapshot export --out=<file> | snapshot import --in=<file> --mode=replace|merge');
+  }
+}
+
+function runExport(file: string): void {
+  initializeDatabase();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, exportSnapshot());
+  console.log(`Snapshot written to ${file}`);
+}
+
+function runImport(file: string, mode: SnapshotImportMode): void {
+  if (!file) {
+    throw new Error('--in is required');
+  }
+  if (mode !== 'replace' && mode !== 'merge') {
+    throw new Error('--mode must be replace or merge');
+  }
+  initializeDatabase();
+  const result = importSnapshot(parseSnapshot(fs.readFileSync(file)), mode);
+  if (!result.isValid) {
+    result.errors.forEach(error => console.error(`${error.field}: ${error.message}`));
+    throw new Error('snapshot failed validation');
+  }
+  console.log(`Snapshot imported (${mode}): ${result.removed} removed`);
+  console.log(JSON.stringify(result.imported));
+}
+
+try {
+  runSnapshot(parseSnapshotOptions(process.argv.slice(2)));
+} catch (error) {
+  console.error(`Snapshot failed: ${(error as Error).message}`);
+  process.exit(1);
+}
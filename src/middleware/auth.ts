@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyAccessToken } from '../utils/tokens';
+import { findRecordById } from '../utils/database';
+import { setCurrentActor } from '../utils/requestContext';
+import { parseBooleanFlag } from '../utils/helpers';
+import { getRolePermissions } from '../utils/permissions';
+import { isTwoFactorRequired } from '../utils/twoFactor';
+import { formatErrorResponse } from '../utils/responseFormatter';
+import { AuthenticatedUser, Permission, User } from '../types';
+
+const BEARER_PATTERN = /^Bearer\s+(.+)$/i;
+
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const token = readBearerToken(req);
+  if (!token) {
+    next();
+    return;
+  }
+  const user = resolveTokenUser(token);
+  if (!user) {
+    res.status(401).json(formatErrorResponse({ message: 'Invalid, expired or revoked access token' }, 401));
+    return;
+  }
+  req.user = user;
+  setCurrentActor(user.id);
+  next();
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json(formatErrorResponse({ message: 'Authentication required' }, 401));
+    return;
+  }
+  next();
+}
+
+export function requireTwoFactor(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json(formatErrorResponse({ message: 'Authentication required' }, 401));
+    return;
+  }
+  if (isMissingTwoFactor(req.user)) {
+    res.status(403).json(formatErrorResponse({ message: 'Two-factor authentication must be enabled for this account' }, 403));
+    return;
+  }
+  next();
+}
+
+export function requireRole(...roles: string[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json(formatErrorResponse({ message: 'Authentication required' }, 401));
+      return;
+    }
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json(formatErrorResponse({ message: 'Insufficient permissions' }, 403));
+      return;
+    }
+    next();
+  };
+}
+
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json(formatErrorResponse({ message: 'Authentication required' }, 401));
+      return;
+    }
+    if (isMissingTwoFactor(req.user)) {
+      res.status(403).json(formatErrorResponse({ message: 'Two-factor authentication must be enabled for this account' }, 403));
+      return;
+    }
+    if (!permissions.every(permission => hasPermission(req, permission))) {
+      res.status(403).json(formatErrorResponse({ message: `Missing permission ${permissions.join(', ')}` }, 403));
+      return;
+    }
+    next();
+  };
+}
+
+export function requireSelf(paramName: string, permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json(formatErrorResponse({ message: 'Authentication required' }, 401));
+      return;
+    }
+    if (!canAccessOwnedRecord(req, req.params[paramName], permission)) {
+      res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+      return;
+    }
+    next();
+  };
+}
+
+export function canAccessOwnedRecord(req: Request, ownerId: string | null | undefined, permission: Permission): boolean {
+  if (!req.user) return false;
+  return hasPermission(req, permission) || (Boolean(ownerId) && ownerId === req.user.id);
+}
+
+export function hasPermission(req: Request, permission: Permission): boolean {
+  return Boolean(req.user && !isMissingTwoFactor(req.user) && req.user.permissions.includes(permission));
+}
+
+function isMissingTwoFactor(user: AuthenticatedUser): boolean {
+  return isTwoFactorRequired(user.role) && !user.twoFactorEnabled;
+}
+
+export function parseIncludeDeleted(req: Request): boolean {
+  return hasPermission(req, 'records:read-deleted') && parseBooleanFlag(req.query.includeDeleted);
+}
+
+export function readBearerToken(req: Request): string | null {
+  const match = BEARER_PATTERN.exec(req.headers.authorization || '');
+  return match ? match[1].trim() : null;
+}
+
+function resolveTokenUser(token: string): AuthenticatedUser | null {
+  const payload = verifyAccessToken(token);
+  if (!payload) return null;
+  const user = findRecordById<User>('users', payload.userId);
+  if (!user) return null;
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: getRolePermissions(user.role),
+    twoFactorEnabled: Boolean(user.twoFactorEnabled)
+  };
+}
@@ -0,0 +1,25 @@
+import { Request, Response } from 'express';
+import { getRecordVersion } from '../utils/database';
+
+export function setEntityTag(res: Response, record: { version?: number }): void {
+  res.setHeader('ETag', buildEntityTag(record));
+}
+
+export function checkIfMatch(req: Request, record: { version?: number }): boolean {
+  const header = req.headers['if-match'];
+  if (!header) return true;
+  const tags = parseEntityTags(header);
+  return tags.includes('*') || tags.includes(buildEntityTag(record));
+}
+
+function buildEntityTag(record: { version?: number }): string {
+  return `"${getRecordVersion(record)}"`;
+}
+
+function parseEntityTags(header: string): string[] {
+  return header.split(',').map(tag => normalizeEntityTag(tag.trim()));
+}
+
+function normalizeEntityTag(tag: string): string {
+  return tag.startsWith('W/') ? tag.substring(2) : tag;
+}
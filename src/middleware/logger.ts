@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { SecurityEvent } from '../types';
 
 interface RequestInfo {
   method: string;
@@ -98,3 +99,14 @@ function extractErrorInfo(error: Error): ErrorInfo {
 function formatErrorLog(errorInfo: ErrorInfo, requestInfo: RequestInfo): string {
   return `[ERROR] ${requestInfo.timestamp} - ${requestInfo.method} ${requestInfo.url} - ${errorInfo.message}`;
 }
+
+export function logSecurityEvent(event: SecurityEvent, req: Request): void {
+  const requestInfo = extractRequestInfo(req);
+  const securityLog = formatSecurityLog(event, requestInfo, req.ip);
+  writeLog(securityLog);
+}
+
+function formatSecurityLog(event: SecurityEvent, requestInfo: RequestInfo, ip: string | undefined): string {
+  const details = { ...event, ip, userAgent: requestInfo.headers.userAgent };
+  return `[SECURITY] ${requestInfo.timestamp} - ${JSON.stringify(details)}`;
+}
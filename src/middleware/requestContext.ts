@@ -0,0 +1,10 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/requestContext';
+import { generateRequestId } from '../utils/responseFormatter';
+
+const ANONYMOUS_ACTOR = 'anonymous';
+
+export function attachRequestContext(req: Request, res: Response, next: NextFunction): void {
+  const context = { requestId: generateRequestId(), actor: ANONYMOUS_ACTOR };
+  runWithRequestContext(context, () => next());
+}
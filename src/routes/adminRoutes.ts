@@ -0,0 +1,260 @@
+import express, { Router, Request, Response } from 'express';
+import { findRecordById, insertRecord, updateRecord } from '../utils/database';
+import { query } from '../utils/queryBuilder';
+import { exportSnapshot, parseSnapshot, importSnapshot } from '../utils/snapshots';
+import { deleteWithReferences } from '../utils/referentialIntegrity';
+import { permissionRegistry, getRoles, ADMIN_ROLE } from '../utils/permissions';
+import { listLoginLocks, clearLoginAttempt, buildAttemptId } from '../utils/loginThrottle';
+import { disableTwoFactor } from '../utils/twoFactor';
+import { validateRole, validateRequiredField } from '../utils/validators';
+import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
+import { requirePermission } from '../middleware/auth';
+import { logSecurityEvent } from '../middleware/logger';
+import { ChangeEvent, LoginAttempt, Permission, Role, Snapshot, SnapshotImportMode, User } from '../types';
+
+const router = Router();
+
+const DEFAULT_CHANGE_LIMIT = 100;
+const MAX_CHANGE_LIMIT = 1000;
+const SNAPSHOT_IMPORT_MODES: SnapshotImportMode[] = ['replace', 'merge'];
+
+const readSnapshotBody = express.raw({
+  type: ['application/gzip', 'application/octet-stream', 'application/json'],
+  limit: '100mb'
+});
+
+router.get('/changes', requirePermission('changes:read'), (req: Request, res: Response) => {
+  const since = parseSequence(req.query.since);
+  const limit = parseChangeLimit(req.query.limit);
+  if (since === null || limit === null) {
+    return res.status(400).json(formatErrorResponse({ message: 'since and limit must be non-negative integers' }, 400));
+  }
+  const page = getChangesSince(since, limit);
+  const response = formatResponse(page, 'Changes retrieved');
+  res.json(response);
+});
+
+router.get('/snapshot', requirePermission('snapshots:manage'), (req: Request, res: Response) => {
+  const archive = exportSnapshot();
+  res.setHeader('Content-Type', 'application/gzip');
+  res.setHeader('Content-Disposition', `attachment; filename="${buildSnapshotFilename()}"`);
+  res.send(archive);
+});
+
+router.post('/snapshot', requirePermission('snapshots:manage'), readSnapshotBody, (req: Request, res: Response) => {
+  const mode = parseImportMode(req.query.mode);
+  if (!mode) {
+    return res.status(400).json(formatErrorResponse({ message: 'mode must be replace or merge' }, 400));
+  }
+  const snapshot = readSnapshot(req.body);
+  if (!snapshot) {
+    return res.status(400).json(formatErrorResponse({ message: 'Request body is not a readable snapshot' }, 400));
+  }
+  const result = importSnapshot(snapshot, mode);
+  if (!result.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(result.errors) }, 400));
+  }
+  const response = formatResponse(result, 'Snapshot imported');
+  res.json(response);
+});
+
+router.get('/permissions', requirePermission('roles:manage'), (req: Request, res: Response) => {
+  const permissions = Object.entries(permissionRegistry).map(([name, description]) => ({ name, description }));
+  const response = formatResponse(permissions, 'Permissions retrieved');
+  res.json(response);
+});
+
+router.get('/roles', requirePermission('roles:manage'), (req: Request, res: Response) => {
+  const response = formatResponse(getRoles(), 'Roles retrieved');
+  res.json(response);
+});
+
+router.post('/roles', requirePermission('roles:manage'), (req: Request, res: Response) => {
+  const validation = validateRole(req.body, true);
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  if (findRecordById<Role>('roles', req.body.id)) {
+    return res.status(409).json(formatErrorResponse({ message: 'Role already exists' }, 409));
+  }
+  const role = createRole(req.body);
+  const response = formatResponse(role, 'Role created');
+  res.status(201).json(response);
+});
+
+router.put('/roles/:id', requirePermission('roles:manage'), (req: Request, res: Response) => {
+  const role = findRecordById<Role>('roles', req.params.id);
+  if (!role) {
+    return res.status(404).json(formatErrorResponse({ message: 'Role not found' }, 404));
+  }
+  if (role.id === ADMIN_ROLE) {
+    return res.status(400).json(formatErrorResponse({ message: 'The admin role always holds every permission' }, 400));
+  }
+  const validation = validateRole(req.body, false);
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  const updated = updateRoleData(role.id, req.body);
+  const response = formatResponse(updated, 'Role updated');
+  res.json(response);
+});
+
+router.delete('/roles/:id', requirePermission('roles:manage'), (req: Request, res: Response) => {
+  const role = findRecordById<Role>('roles', req.params.id);
+  if (!role) {
+    return res.status(404).json(formatErrorResponse({ message: 'Role not found' }, 404));
+  }
+  if (role.builtIn) {
+    return res.status(400).json(formatErrorResponse({ message: 'Built-in roles cannot be deleted' }, 400));
+  }
+  const result = deleteWithReferences<Role>('roles', role.id);
+  if (result.blockingReferences) {
+    return res.status(409).json(formatErrorResponse({ message: 'Role is still assigned' }, 409, result.blockingReferences));
+  }
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
+  const response = formatResponse(result.data, 'Role deleted');
+  res.json(response);
+});
+
+router.put('/users/:id/role', requirePermission('roles:manage'), (req: Request, res: Response) => {
+  const user = findRecordById<User>('users', req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  if (!validateRequiredField(req.body.role) || !findRecordById<Role>('roles', req.body.role)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Unknown role' }, 400));
+  }
+  if (user.id === req.user!.id) {
+    return res.status(400).json(formatErrorResponse({ message: 'You cannot change your own role' }, 400));
+  }
+  const updated = updateRecord<User>('users', user.id, { role: req.body.role });
+  const response = formatResponse({ id: updated!.id, email: updated!.email, role: updated!.role }, 'Role assigned');
+  res.json(response);
+});
+
+router.get('/login-locks', requirePermission('logins:unlock'), (req: Request, res: Response) => {
+  const response = formatResponse(listLoginLocks(), 'Login locks retrieved');
+  res.json(response);
+});
+
+router.delete('/login-locks/:id', requirePermission('logins:unlock'), (req: Request, res: Response) => {
+  const cleared = clearLoginAttempt(req.params.id);
+  if (!cleared) {
+    return res.status(404).json(formatErrorResponse({ message: 'Login lock not found' }, 404));
+  }
+  reportUnlock(req, cleared);
+  const response = formatResponse(cleared, 'Login lock cleared');
+  res.json(response);
+});
+
+router.post('/users/:id/unlock', requirePermission('logins:unlock'), (req: Request, res: Response) => {
+  const user = findRecordById<User>('users', req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  const cleared = clearLoginAttempt(buildAttemptId('account', user.email));
+  if (cleared) {
+    reportUnlock(req, cleared);
+  }
+  const response = formatResponse({ id: user.id, email: user.email, unlocked: Boolean(cleared) }, 'User unlocked');
+  res.json(response);
+});
+
+router.delete('/users/:id/2fa', requirePermission('users:write'), (req: Request, res: Response) => {
+  const user = findRecordById<User>('users', req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  if (!user.twoFactorEnabled && !user.twoFactorPendingSecret) {
+    return res.status(400).json(formatErrorResponse({ message: 'Two-factor authentication is not enabled' }, 400));
+  }
+  if (user.id === req.user!.id) {
+    return res.status(400).json(formatErrorResponse({ message: 'You cannot reset your own two-factor authentication' }, 400));
+  }
+  disableTwoFactor(user);
+  logSecurityEvent({ type: 'two-factor.disabled', email: user.email, actor: req.user!.id }, req);
+  const response = formatResponse({ id: user.id, email: user.email, twoFactorEnabled: false }, 'Two-factor authentication reset');
+  res.json(response);
+});
+
+function reportUnlock(req: Request, attempt: LoginAttempt): void {
+  logSecurityEvent({ type: 'login.unlocked', scope: attempt.scope, subject: attempt.subject, actor: req.user!.id }, req);
+}
+
+function createRole(data: Partial<Role>): Role {
+  return insertRecord<Role>('roles', {
+    id: data.id!,
+    name: data.name!,
+    description: data.description || '',
+    permissions: uniquePermissions(data.permissions!),
+    builtIn: false
+  });
+}
+
+function updateRoleData(id: string, data: Partial<Role>): Role | null {
+  const updates: Partial<Role> = {};
+  if (data.name) updates.name = data.name;
+  if (data.description !== undefined) updates.description = data.description;
+  if (data.permissions) updates.permissions = uniquePermissions(data.permissions);
+  return updateRecord<Role>('roles', id, updates);
+}
+
+function uniquePermissions(permissions: Permission[]): Permission[] {
+  return Array.from(new Set(permissions));
+}
+
+function buildSnapshotFilename(): string {
+  return `snapshot-${new Date().toISOString().replace(/[:.]/g, '-')}.json.gz`;
+}
+
+function parseImportMode(value: unknown): SnapshotImportMode | null {
+  if (value === undefined) return 'replace';
+  const mode = String(value) as SnapshotImportMode;
+  return SNAPSHOT_IMPORT_MODES.includes(mode) ? mode : null;
+}
+
+function readSnapshot(body: unknown): Snapshot | null {
+  if (!Buffer.isBuffer(body)) return isSnapshotObject(body) ? parseSnapshot(Buffer.from(JSON.stringify(body))) : null;
+  if (body.length === 0) return null;
+  try {
+    return parseSnapshot(body);
+  } catch (error) {
+    return null;
+  }
+}
+
+function isSnapshotObject(body: unknown): boolean {
+  return Boolean(body) && typeof body === 'object' && Object.keys(body as object).length > 0;
+}
+
+function parseSequence(value: unknown): number | null {
+  if (value === undefined) return 0;
+  const sequence = parseInt(String(value), 10);
+  return isNaN(sequence) || sequence < 0 ? null : sequence;
+}
+
+function parseChangeLimit(value: unknown): number | null {
+  if (value === undefined) return DEFAULT_CHANGE_LIMIT;
+  const limit = parseInt(String(value), 10);
+  return isNaN(limit) || limit < 1 ? null : Math.min(limit, MAX_CHANGE_LIMIT);
+}
+
+function getChangesSince(since: number, limit: number) {
+  const changes = fetchChangesAfter(since, limit + 1);
+  const hasMore = changes.length > limit;
+  const pageChanges = changes.slice(0, limit);
+  const nextCursor = pageChanges.length > 0 ? pageChanges[pageChanges.length - 1].sequence : since;
+  return { changes: pageChanges, nextCursor, hasMore };
+}
+
+function fetchChangesAfter(since: number, limit: number): ChangeEvent[] {
+  return query('changes')
+    .filter(change => change.sequence > since)
+    .orderBy('sequence')
+    .limit(limit)
+    .all();
+}
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { database } from '../utils/database';
+import { database, findRecordById, findAllRecords } from '../utils/database';
 import { formatResponse } from '../utils/responseFormatter';
 import { formatPrice, calculateSubtotal } from '../utils/helpers';
 import { Order, Product, User, OrderItem } from '../types';
@@ -45,8 +45,8 @@ router.get('/revenue', (req: Request, res: Response) => {
 
 function getDashboardMetrics() {
   const orders = database.orders || [];
-  const products = database.products || [];
-  const users = database.users || [];
+  const products = findAllRecords<Product>('products');
+  const users = findAllRecords<User>('users');
   
   return {
     totalOrders: calculateTotalOrders(orders),
@@ -245,7 +245,7 @@ function groupSalesByCategory(orders: Order[]) {
 
 function processCategorySales(items: OrderItem[], categorySales: Record<string, any>): void {
   for (const item of items) {
-    const product = database.products.find(p => p.id === item.productId);
+    const product = findRecordById<Product>('products', item.productId, { includeDeleted: true });
     const categoryId = product ? product.categoryId : 'unknown';
     updateCategorySales(categorySales, categoryId, item);
   }
@@ -260,7 +260,7 @@ function updateCategorySales(categorySales: Record<string, any>, categoryId: str
 }
 
 function getProductAnalytics() {
-  const products = database.products || [];
+  const products = findAllRecords<Product>('products');
   const orders = database.orders || [];
   
   return {
@@ -298,7 +298,7 @@ function groupProductsByCategory(products: Product[]) {
 }
 
 function getCustomerAnalytics() {
-  const users = database.users || [];
+  const users = findAllRecords<User>('users');
   const orders = database.orders || [];
   const customers = users.filter(u => u.role === 'customer');
   
@@ -350,6 +350,7 @@ function getTopCustomers(orders: Order[], limit: number) {
 
 function updateCustomerSpending(spending: Record<string, any>, order: Order): void {
   const userId = order.userId;
+  if (!userId) return;
   if (!spending[userId]) {
     spending[userId] = { userId, totalSpent: 0, orderCount: 0 };
   }
@@ -1,108 +1,178 @@
 import { Router, Request, Response } from 'express';
-import { findRecordById, database } from '../utils/database';
+import { findRecordById } from '../utils/database';
 import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
-import { generateId, calculateTotal, formatPrice } from '../utils/helpers';
+import { requireSelf } from '../middleware/auth';
+import { validateQuantity } from '../utils/validators';
+import { calculateTotal, formatPrice } from '../utils/helpers';
+import {
+  CART_TOKEN_HEADER,
+  getOrCreateUserCart,
+  createGuestCart,
+  findGuestCart,
+  checkStockAvailable,
+  findCartItem,
+  addItemToCart,
+  updateCartItemQuantity,
+  removeCartItem,
+  clearCart
+} from '../utils/carts';
+import { findVariant, getAvailableStock, resolveVariant } from '../utils/variants';
 import { Cart, CartItem, Product } from '../types';
 
+type CartResolver = (req: Request) => Cart | undefined;
+
 const router = Router();
 
-router.get('/:userId', (req: Request, res: Response) => {
-  const cart = getCartByUserId(req.params.userId);
-  if (!cart) {
-    const emptyCart = createEmptyCart(req.params.userId);
-    return res.json(formatResponse(emptyCart, 'Cart retrieved'));
-  }
-  const enriched = enrichCartData(cart);
-  const response = formatResponse(enriched, 'Cart retrieved');
-  res.json(response);
+router.post('/guest', (req: Request, res: Response) => {
+  const session = createGuestCart();
+  const response = formatResponse({ cartToken: session.cartToken, cart: enrichCartData(session.cart) }, 'Guest cart created');
+  res.status(201).json(response);
 });
 
-router.post('/:userId/items', (req: Request, res: Response) => {
-  const { productId, quantity } = req.body;
-  
-  const product = findRecordById<Product>('products', productId);
-  if (!product) {
-    return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
-  }
-  
-  if (!checkStockAvailable(product, quantity)) {
-    return res.status(400).json(formatErrorResponse({ message: 'Insufficient stock' }, 400));
-  }
-  
-  const cart = addItemToCart(req.params.userId, product, quantity);
-  const enriched = enrichCartData(cart);
-  const response = formatResponse(enriched, 'Item added to cart');
-  res.json(response);
-});
+router.get('/guest', handleGetCart(resolveGuestCart));
+router.post('/guest/items', handleAddItem(resolveGuestCart));
+router.put('/guest/items/:productId', handleUpdateItem(resolveGuestCart));
+router.delete('/guest/items/:productId', handleRemoveItem(resolveGuestCart));
+router.delete('/guest', handleClearCart(resolveGuestCart));
+router.post('/guest/checkout', handleCheckout(resolveGuestCart));
 
-router.put('/:userId/items/:productId', (req: Request, res: Response) => {
-  const { quantity } = req.body;
-  
-  const product = findRecordById<Product>('products', req.params.productId);
-  if (!product) {
-    return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
-  }
-  
-  if (!checkStockAvailable(product, quantity)) {
-    return res.status(400).json(formatErrorResponse({ message: 'Insufficient stock' }, 400));
-  }
-  
-  const cart = updateCartItemQuantity(req.params.userId, req.params.productId, quantity);
-  const enriched = enrichCartData(cart);
-  const response = formatResponse(enriched, 'Cart item updated');
-  res.json(response);
-});
+router.get('/:userId', requireSelf('userId', 'carts:manage'), handleGetCart(resolveUserCart));
+router.post('/:userId/items', requireSelf('userId', 'carts:manage'), handleAddItem(resolveUserCart));
+router.put('/:userId/items/:productId', requireSelf('userId', 'carts:manage'), handleUpdateItem(resolveUserCart));
+router.delete('/:userId/items/:productId', requireSelf('userId', 'carts:manage'), handleRemoveItem(resolveUserCart));
+router.delete('/:userId', requireSelf('userId', 'carts:manage'), handleClearCart(resolveUserCart));
+router.post('/:userId/checkout', requireSelf('userId', 'carts:manage'), handleCheckout(resolveUserCart));
 
-router.delete('/:userId/items/:productId', (req: Request, res: Response) => {
-  const cart = removeCartItem(req.params.userId, req.params.productId);
-  const enriched = enrichCartData(cart);
-  const response = formatResponse(enriched, 'Item removed from cart');
-  res.json(response);
-});
+function resolveUserCart(req: Request): Cart {
+  return getOrCreateUserCart(req.params.userId);
+}
 
-router.delete('/:userId', (req: Request, res: Response) => {
-  const cart = clearCart(req.params.userId);
-  const response = formatResponse(cart, 'Cart cleared');
-  res.json(response);
-});
+function resolveGuestCart(req: Request): Cart | undefined {
+  return findGuestCart(req.header(CART_TOKEN_HEADER));
+}
 
-router.post('/:userId/checkout', (req: Request, res: Response) => {
-  const cart = getCartByUserId(req.params.userId);
-  if (!cart || cart.items.length === 0) {
-    return res.status(400).json(formatErrorResponse({ message: 'Cart is empty' }, 400));
-  }
-  
-  const validationResult = validateCartForCheckout(cart);
-  if (!validationResult.valid) {
-    return res.status(400).json(formatErrorResponse({ message: validationResult.message }, 400));
-  }
-  
-  const checkoutData = prepareCheckoutData(cart, req.body);
-  const response = formatResponse(checkoutData, 'Ready for checkout');
-  res.json(response);
-});
+function handleGetCart(resolveCart: CartResolver) {
+  return (req: Request, res: Response) => {
+    const cart = resolveCart(req);
+    if (!cart) {
+      return res.status(404).json(formatErrorResponse({ message: 'Cart not found' }, 404));
+    }
+    const enriched = enrichCartData(cart);
+    const response = formatResponse(enriched, 'Cart retrieved');
+    res.json(response);
+  };
+}
 
-function getCartByUserId(userId: string): Cart | undefined {
-  const carts = database.carts || [];
-  return carts.find(cart => cart.userId === userId);
+function handleAddItem(resolveCart: CartResolver) {
+  return (req: Request, res: Response) => {
+    const { productId, variantId, quantity } = req.body;
+    if (!validateQuantity(quantity)) {
+      return res.status(400).json(formatErrorResponse({ message: 'Quantity must be a positive integer' }, 400));
+    }
+    
+    const cart = resolveCart(req);
+    if (!cart) {
+      return res.status(404).json(formatErrorResponse({ message: 'Cart not found' }, 404));
+    }
+    
+    const product = findRecordById<Product>('products', productId);
+    if (!product) {
+      return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
+    }
+    
+    const variant = resolveVariant(product, variantId);
+    if (!variant.success) {
+      return res.status(400).json(formatErrorResponse({ message: variant.message }, 400));
+    }
+    
+    const inCart = findCartItem(cart, product.id, variantId)?.quantity || 0;
+    if (!checkStockAvailable(product, inCart + quantity, variantId)) {
+      return res.status(400).json(formatErrorResponse({ message: 'Insufficient stock' }, 400));
+    }
+    
+    const updated = addItemToCart(cart, product, quantity, variant.data);
+    const enriched = enrichCartData(updated);
+    const response = formatResponse(enriched, 'Item added to cart');
+    res.json(response);
+  };
 }
 
-function createEmptyCart(userId: string): Cart {
-  const cart = buildEmptyCart(userId);
-  database.carts.push(cart);
-  return cart;
+function handleUpdateItem(resolveCart: CartResolver) {
+  return (req: Request, res: Response) => {
+    const { quantity } = req.body;
+    const variantId = readVariantId(req);
+    if (!validateQuantity(quantity)) {
+      return res.status(400).json(formatErrorResponse({ message: 'Quantity must be a positive integer' }, 400));
+    }
+    
+    const cart = resolveCart(req);
+    if (!cart) {
+      return res.status(404).json(formatErrorResponse({ message: 'Cart not found' }, 404));
+    }
+    
+    const product = findRecordById<Product>('products', req.params.productId);
+    if (!product) {
+      return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
+    }
+    
+    if (!checkStockAvailable(product, quantity, variantId)) {
+      return res.status(400).json(formatErrorResponse({ message: 'Insufficient stock' }, 400));
+    }
+    
+    const updated = updateCartItemQuantity(cart, req.params.productId, quantity, variantId);
+    const enriched = enrichCartData(updated);
+    const response = formatResponse(enriched, 'Cart item updated');
+    res.json(response);
+  };
 }
 
-function buildEmptyCart(userId: string): Cart {
-  return {
-    id: generateId(),
-    userId: userId,
-    items: [],
-    createdAt: new Date(),
-    updatedAt: new Date()
+function handleRemoveItem(resolveCart: CartResolver) {
+  return (req: Request, res: Response) => {
+    const cart = resolveCart(req);
+    if (!cart) {
+      return res.status(404).json(formatErrorResponse({ message: 'Cart not found' }, 404));
+    }
+    const updated = removeCartItem(cart, req.params.productId, readVariantId(req));
+    const enriched = enrichCartData(updated);
+    const response = formatResponse(enriched, 'Item removed from cart');
+    res.json(response);
+  };
+}
+
+function handleClearCart(resolveCart: CartResolver) {
+  return (req: Request, res: Response) => {
+    const cart = resolveCart(req);
+    if (!cart) {
+      return res.status(404).json(formatErrorResponse({ message: 'Cart not found' }, 404));
+    }
+    const cleared = clearCart(cart);
+    const response = formatResponse(cleared, 'Cart cleared');
+    res.json(response);
   };
 }
 
+function handleCheckout(resolveCart: CartResolver) {
+  return (req: Request, res: Response) => {
+    const cart = resolveCart(req);
+    if (!cart || cart.items.length === 0) {
+      return res.status(400).json(formatErrorResponse({ message: 'Cart is empty' }, 400));
+    }
+    
+    const validationResult = validateCartForCheckout(cart);
+    if (!validationResult.valid) {
+      return res.status(400).json(formatErrorResponse({ message: validationResult.message }, 400));
+    }
+    
+    const checkoutData = prepareCheckoutData(cart, req.body);
+    const response = formatResponse(checkoutData, 'Ready for checkout');
+    res.json(response);
+  };
+}
+
+function readVariantId(req: Request): string | undefined {
+  return typeof req.query.variantId === 'string' && req.query.variantId ? req.query.variantId : undefined;
+}
+
 function enrichCartData(cart: Cart) {
   const items = enrichCartItems(cart.items);
   const totals = calculateTotal(items.map(i => ({ productId: i.productId, price: i.price, quantity: i.quantity })));
@@ -120,7 +190,7 @@ function enrichCartItem(item: CartItem) {
   return {
     ...item,
     name: product ? product.name : 'Unknown',
-    currentStock: product ? product.stock : 0,
+    currentStock: product ? getAvailableStock(product, item.variantId) : 0,
     formattedPrice: formatPrice(item.price),
     formattedTotal: formatPrice(itemTotal)
   };
@@ -134,91 +204,6 @@ function calculateItemCount(items: CartItem[]): number {
   return items.reduce((total, item) => total + item.quantity, 0);
 }
 
-function checkStockAvailable(product: Product, quantity: number): boolean {
-  return product.stock >= quantity;
-}
-
-function addItemToCart(userId: string, product: Product, quantity: number): Cart {
-  let cart = getCartByUserId(userId);
-  if (!cart) {
-    cart = createEmptyCart(userId);
-  }
-  
-  const existingItem = findCartItem(cart, product.id);
-  if (existingItem) {
-    return updateExistingCartItem(cart, product.id, existingItem.quantity + quantity);
-  }
-  
-  return addNewCartItem(cart, product, quantity);
-}
-
-function findCartItem(cart: Cart, productId: string): CartItem | undefined {
-  return cart.items.find(item => item.productId === productId);
-}
-
-function updateExistingCartItem(cart: Cart, productId: string, newQuantity: number): Cart {
-  const itemIndex = cart.items.findIndex(item => item.productId === productId);
-  cart.items[itemIndex].quantity = newQuantity;
-  cart.updatedAt = new Date();
-  return cart;
-}
-
-function addNewCartItem(cart: Cart, product: Product, quantity: number): Cart {
-  const newItem = buildCartItem(product, quantity);
-  cart.items.push(newItem);
-  cart.updatedAt = new Date();
-  return cart;
-}
-
-function buildCartItem(product: Product, quantity: number): CartItem {
-  return {
-    productId: product.id,
-    name: product.name,
-    price: product.price,
-    quantity: quantity,
-    addedAt: new Date()
-  };
-}
-
-function updateCartItemQuantity(userId: string, productId: string, quantity: number): Cart {
-  const cart = getCartByUserId(userId);
-  if (!cart) {
-    return createEmptyCart(userId);
-  }
-  
-  if (quantity <= 0) {
-    return removeCartItem(userId, productId);
-  }
-  
-  return updateExistingCartItem(cart, productId, quantity);
-}
-
-function removeCartItem(userId: string, productId: string): Cart {
-  const cart = getCartByUserId(userId);
-  if (!cart) {
-    return createEmptyCart(userId);
-  }
-  
-  cart.items = filterOutItem(cart.items, productId);
-  cart.updatedAt = new Date();
-  return cart;
-}
-
-function filterOutItem(items: CartItem[], productId: string): CartItem[] {
-  return items.filter(item => item.productId !== productId);
-}
-
-function clearCart(userId: string): Cart {
-  const cart = getCartByUserId(userId);
-  if (!cart) {
-    return createEmptyCart(userId);
-  }
-  
-  cart.items = [];
-  cart.updatedAt = new Date();
-  return cart;
-}
-
 function validateCartForCheckout(cart: Cart): { valid: boolean; message?: string } {
   for (const item of cart.items) {
     const stockCheck = validateItemStock(item);
@@ -231,10 +216,10 @@ function validateCartForCheckout(cart: Cart): { valid: boolean; message?: string
 
 function validateItemStock(item: CartItem): { valid: boolean; message?: string } {
   const product = findRecordById<Product>('products', item.productId);
-  if (!product) {
+  if (!product || (item.variantId && !findVariant(product, item.variantId))) {
     return { valid: false, message: `Product ${item.productId} no longer available` };
   }
-  if (product.stock < item.quantity) {
+  if (!checkStockAvailable(product, item.quantity, item.variantId)) {
     return { valid: false, message: `Insufficient stock for ${product.name}` };
   }
   return { valid: true };
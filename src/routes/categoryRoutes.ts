@@ -1,16 +1,29 @@
 import { Router, Request, Response } from 'express';
-import { executeQuery, findRecordById, insertRecord, updateRecord, deleteRecord, database } from '../utils/database';
-import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
+import { executeQuery, findRecordById, insertRecord, updateRecord, restoreRecord } from '../utils/database';
+import { deleteWithReferences, findMissingReferences } from '../utils/referentialIntegrity';
+import { query } from '../utils/queryBuilder';
+import { formatResponse, formatErrorResponse, formatPaginatedResponse } from '../utils/responseFormatter';
+import { parseListQuery, paginate } from '../utils/pagination';
+import { requirePermission, parseIncludeDeleted } from '../middleware/auth';
 import { generateId } from '../utils/helpers';
+import { setEntityTag, checkIfMatch } from '../middleware/concurrency';
 import { validateRequiredField } from '../utils/validators';
-import { Category, Product } from '../types';
+import { getEffectivePrice } from '../utils/pricing';
+import { Category, DeleteResult, Product } from '../types';
+
+const CATEGORY_LIST_OPTIONS = { sortable: ['name', 'slug', 'productCount', 'createdAt', 'updatedAt'], defaultSort: 'name' };
+const CATEGORY_PRODUCT_LIST_OPTIONS = { sortable: ['name', 'price', 'stock', 'averageRating', 'createdAt', 'updatedAt'], defaultSort: 'createdAt', sortAliases: { price: 'effectivePrice' } };
 
 const router = Router();
 
 router.get('/', (req: Request, res: Response) => {
-  const categories = getAllCategories();
-  const enriched = enrichCategoryList(categories);
-  const response = formatResponse(enriched, 'Categories retrieved');
+  const listQuery = parseListQuery(req, CATEGORY_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const categories = getAllCategories(parseIncludeDeleted(req));
+  const page = paginate(enrichCategoryList(categories), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Categories retrieved', page.nextCursor);
   res.json(response);
 });
 
@@ -22,12 +35,13 @@ router.get('/tree', (req: Request, res: Response) => {
 });
 
 router.get('/:id', (req: Request, res: Response) => {
-  const category = getCategoryById(req.params.id);
+  const category = getCategoryById(req.params.id, parseIncludeDeleted(req));
   if (!category) {
     return res.status(404).json(formatErrorResponse({ message: 'Category not found' }, 404));
   }
   const enriched = enrichCategoryData(category);
   const response = formatResponse(enriched, 'Category retrieved');
+  setEntityTag(res, category);
   res.json(response);
 });
 
@@ -36,56 +50,91 @@ router.get('/:id/products', (req: Request, res: Response) => {
   if (!category) {
     return res.status(404).json(formatErrorResponse({ message: 'Category not found' }, 404));
   }
-  const products = getCategoryProducts(req.params.id);
-  const response = formatResponse(products, 'Category products retrieved');
+  const listQuery = parseListQuery(req, CATEGORY_PRODUCT_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const page = paginate(getCategoryProducts(req.params.id), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Category products retrieved', page.nextCursor);
   res.json(response);
 });
 
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requirePermission('categories:write'), (req: Request, res: Response) => {
   const validation = validateCategoryData(req.body);
   if (!validation.valid) {
     return res.status(400).json(formatErrorResponse({ message: validation.message }, 400));
   }
   
+  const missingReferences = findMissingReferences('categories', req.body);
+  if (missingReferences.length > 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Category references missing records' }, 400, missingReferences));
+  }
+  
   const category = createCategory(req.body);
   const response = formatResponse(category, 'Category created');
   res.status(201).json(response);
 });
 
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requirePermission('categories:write'), (req: Request, res: Response) => {
   const category = getCategoryById(req.params.id);
   if (!category) {
     return res.status(404).json(formatErrorResponse({ message: 'Category not found' }, 404));
   }
   
+  if (!checkIfMatch(req, category)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Category has been modified by another request' }, 412));
+  }
+  
+  const missingReferences = findMissingReferences('categories', { ...req.body, id: req.params.id });
+  if (missingReferences.length > 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Category references missing records' }, 400, missingReferences));
+  }
+  
   const updated = updateCategoryData(req.params.id, req.body);
   const response = formatResponse(updated, 'Category updated');
+  setEntityTag(res, updated!);
   res.json(response);
 });
 
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('categories:write'), (req: Request, res: Response) => {
   const category = getCategoryById(req.params.id);
   if (!category) {
     return res.status(404).json(formatErrorResponse({ message: 'Category not found' }, 404));
   }
   
-  const productsCount = countCategoryProducts(req.params.id);
-  if (productsCount > 0) {
-    return res.status(400).json(formatErrorResponse({ message: 'Cannot delete category with products' }, 400));
+  const result = removeCategory(req.params.id);
+  if (result.blockingReferences) {
+    return res.status(409).json(formatErrorResponse({ message: 'Category is still referenced' }, 409, result.blockingReferences));
+  }
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
+  
+  const response = formatResponse(result.data, 'Category deleted');
+  res.json(response);
+});
+
+router.post('/:id/restore', requirePermission('categories:write'), (req: Request, res: Response) => {
+  const category = getCategoryById(req.params.id, true);
+  if (!category) {
+    return res.status(404).json(formatErrorResponse({ message: 'Category not found' }, 404));
+  }
+  if (!category.deletedAt) {
+    return res.status(400).json(formatErrorResponse({ message: 'Category is not deleted' }, 400));
   }
   
-  const deleted = removeCategory(req.params.id);
-  const response = formatResponse(deleted, 'Category deleted');
+  const restored = restoreCategory(req.params.id);
+  const response = formatResponse(restored, 'Category restored');
   res.json(response);
 });
 
-function getAllCategories(): Category[] {
-  const result = executeQuery<Category[]>('categories', 'findAll');
+function getAllCategories(includeDeleted: boolean = false): Category[] {
+  const result = executeQuery<Category[]>('categories', 'findAll', { includeDeleted });
   return result.data || [];
 }
 
-function getCategoryById(id: string): Category | undefined {
-  return findRecordById<Category>('categories', id);
+function getCategoryById(id: string, includeDeleted: boolean = false): Category | undefined {
+  return findRecordById<Category>('categories', id, { includeDeleted });
 }
 
 function enrichCategoryList(categories: Category[]) {
@@ -99,18 +148,16 @@ function enrichCategoryData(category: Category) {
 }
 
 function countCategoryProducts(categoryId: string): number {
-  const products = database.products || [];
-  return products.filter(p => p.categoryId === categoryId).length;
+  return query('products').where('categoryId', categoryId).count();
 }
 
 function getSubcategories(parentId: string): Category[] {
-  const categories = getAllCategories();
-  return categories.filter(c => c.parentId === parentId);
+  return query('categories').where('parentId', parentId).all();
 }
 
-function getCategoryProducts(categoryId: string): Product[] {
-  const products = database.products || [];
-  return products.filter(p => p.categoryId === categoryId);
+function getCategoryProducts(categoryId: string): (Product & { effectivePrice: number })[] {
+  return query('products').where('categoryId', categoryId).all()
+    .map(product => ({ ...product, effectivePrice: getEffectivePrice(product).effectivePrice }));
 }
 
 function buildCategoryTree(categories: Category[]) {
@@ -178,8 +225,12 @@ function filterCategoryUpdates(updates: Partial<Category>): Partial<Category> {
   return safe;
 }
 
-function removeCategory(id: string): Category | null {
-  return deleteRecord<Category>('categories', id);
+function removeCategory(id: string): DeleteResult<Category> {
+  return deleteWithReferences<Category>('categories', id);
+}
+
+function restoreCategory(id: string): Category | null {
+  return restoreRecord<Category>('categories', id);
 }
 
 export default router;
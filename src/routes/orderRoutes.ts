@@ -1,68 +1,135 @@
 import { Router, Request, Response } from 'express';
-import { executeQuery, findRecordById, insertRecord, updateRecord } from '../utils/database';
-import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
+import { executeQuery, findRecordById, updateRecord, withTransaction } from '../utils/database';
+import { query } from '../utils/queryBuilder';
+import { formatResponse, formatErrorResponse, formatPaginatedResponse } from '../utils/responseFormatter';
+import { parseListQuery, paginate } from '../utils/pagination';
+import { requireAuth, requirePermission, canAccessOwnedRecord, hasPermission } from '../middleware/auth';
 import { validateOrder } from '../utils/validators';
+import { findMissingReferences } from '../utils/referentialIntegrity';
+import { findAddress, getDefaultAddress, toOrderAddress } from '../utils/addressBook';
+import { CART_TOKEN_HEADER, findGuestCart, deleteCart, checkStockAvailable } from '../utils/carts';
+import { buildStockAdjustment, findVariant, getVariantPrice, resolveVariant } from '../utils/variants';
+import { sendMail } from '../utils/mail';
 import { generateId, calculateTotal, formatPrice } from '../utils/helpers';
-import { Order, OrderItem, OrderStatus } from '../types';
+import { setEntityTag, checkIfMatch } from '../middleware/concurrency';
+import { Address, Cart, Order, OrderItem, OrderStatus, Product, Transaction, TransactionResult, User } from '../types';
+
+const ORDER_LIST_OPTIONS = { sortable: ['createdAt', 'updatedAt', 'status'], defaultSort: '-createdAt' };
 
 const router = Router();
 
-router.get('/', (req: Request, res: Response) => {
-  const orders = getAllOrders();
-  const enriched = enrichOrderList(orders);
-  const response = formatResponse(enriched, 'Orders retrieved');
+router.get('/', requireAuth, (req: Request, res: Response) => {
+  const listQuery = parseListQuery(req, ORDER_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const orders = hasPermission(req, 'orders:read') ? getAllOrders() : getUserOrders(req.user!.id);
+  const page = paginate(enrichOrderList(orders), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Orders retrieved', page.nextCursor);
   res.json(response);
 });
 
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireAuth, (req: Request, res: Response) => {
   const order = getOrderById(req.params.id);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
+  if (!canAccessOwnedRecord(req, order.userId, 'orders:read')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
   const enriched = enrichOrderData(order);
   const response = formatResponse(enriched, 'Order retrieved');
+  setEntityTag(res, order);
   res.json(response);
 });
 
-router.get('/:id/tracking', (req: Request, res: Response) => {
+router.get('/:id/tracking', requireAuth, (req: Request, res: Response) => {
   const order = getOrderById(req.params.id);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
+  if (!canAccessOwnedRecord(req, order.userId, 'orders:read')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
   const tracking = getOrderTracking(order);
   const response = formatResponse(tracking, 'Tracking info retrieved');
   res.json(response);
 });
 
-router.get('/:id/invoice', (req: Request, res: Response) => {
+router.get('/:id/invoice', requireAuth, (req: Request, res: Response) => {
   const order = getOrderById(req.params.id);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
+  if (!canAccessOwnedRecord(req, order.userId, 'orders:read')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
   const invoice = generateInvoice(order);
   const response = formatResponse(invoice, 'Invoice generated');
   res.json(response);
 });
 
-router.post('/', (req: Request, res: Response) => {
-  const validation = validateOrder(req.body);
+router.post('/', requireAuth, (req: Request, res: Response) => {
+  const requested = hasPermission(req, 'orders:write') ? req.body : { ...req.body, userId: req.user!.id };
+  const address = resolveShippingAddress(requested);
+  if (!address.success) {
+    return res.status(400).json(formatErrorResponse({ message: address.message }, 400));
+  }
+  
+  const { addressId, ...orderData } = { ...requested, shippingAddress: address.data };
+  const validation = validateOrder(orderData);
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  
+  const missingReferences = findMissingReferences('orders', orderData);
+  if (missingReferences.length > 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Order references missing records' }, 400, missingReferences));
+  }
+  
+  const stockCheck = validateStockAvailability(orderData.items);
+  if (!stockCheck.available) {
+    return res.status(400).json(formatErrorResponse({ message: stockCheck.message }, 400));
+  }
+  
+  const result = createOrder(orderData);
+  if (!result.success) {
+    return res.status(400).json(formatErrorResponse({ message: result.message }, 400));
+  }
+  
+  const response = formatResponse(result.data, 'Order created successfully');
+  res.status(201).json(response);
+});
+
+router.post('/guest', (req: Request, res: Response) => {
+  const cart = findGuestCart(req.header(CART_TOKEN_HEADER));
+  if (!cart || cart.items.length === 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Guest cart is empty or missing' }, 400));
+  }
+  
+  const orderData = buildGuestOrderData(cart, req.body);
+  const validation = validateOrder(orderData);
   if (!validation.isValid) {
     return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
   }
   
-  const stockCheck = validateStockAvailability(req.body.items);
+  const stockCheck = validateStockAvailability(orderData.items);
   if (!stockCheck.available) {
     return res.status(400).json(formatErrorResponse({ message: stockCheck.message }, 400));
   }
   
-  const order = createOrder(req.body);
-  updateProductStock(order.items);
+  const result = createOrder(orderData);
+  if (!result.success) {
+    return res.status(400).json(formatErrorResponse({ message: result.message }, 400));
+  }
   
-  const response = formatResponse(order, 'Order created successfully');
+  deleteCart(cart);
+  sendGuestOrderConfirmation(result.data!);
+  const response = formatResponse(result.data, 'Order created successfully');
   res.status(201).json(response);
 });
 
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requirePermission('orders:write'), (req: Request, res: Response) => {
   const order = getOrderById(req.params.id);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
@@ -72,12 +139,17 @@ router.put('/:id', (req: Request, res: Response) => {
     return res.status(400).json(formatErrorResponse({ message: 'Order cannot be modified' }, 400));
   }
   
+  if (!checkIfMatch(req, order)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Order has been modified by another request' }, 412));
+  }
+  
   const updated = updateOrderData(req.params.id, req.body);
   const response = formatResponse(updated, 'Order updated');
+  setEntityTag(res, updated!);
   res.json(response);
 });
 
-router.patch('/:id/status', (req: Request, res: Response) => {
+router.patch('/:id/status', requirePermission('orders:write'), (req: Request, res: Response) => {
   const order = getOrderById(req.params.id);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
@@ -88,25 +160,36 @@ router.patch('/:id/status', (req: Request, res: Response) => {
     return res.status(400).json(formatErrorResponse({ message: 'Invalid status transition' }, 400));
   }
   
+  if (!checkIfMatch(req, order)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Order has been modified by another request' }, 412));
+  }
+  
   const updated = updateOrderStatus(req.params.id, status);
   const response = formatResponse(updated, 'Order status updated');
+  setEntityTag(res, updated!);
   res.json(response);
 });
 
-router.post('/:id/cancel', (req: Request, res: Response) => {
+router.post('/:id/cancel', requireAuth, (req: Request, res: Response) => {
   const order = getOrderById(req.params.id);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
   
+  if (!canAccessOwnedRecord(req, order.userId, 'orders:write')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
+  
   if (!canCancelOrder(order)) {
     return res.status(400).json(formatErrorResponse({ message: 'Order cannot be cancelled' }, 400));
   }
   
-  const cancelled = cancelOrder(req.params.id);
-  restoreProductStock(order.items);
+  const result = cancelOrder(order);
+  if (!result.success) {
+    return res.status(400).json(formatErrorResponse({ message: result.message }, 400));
+  }
   
-  const response = formatResponse(cancelled, 'Order cancelled');
+  const response = formatResponse(result.data, 'Order cancelled');
   res.json(response);
 });
 
@@ -115,6 +198,10 @@ function getAllOrders(): Order[] {
   return result.data || [];
 }
 
+function getUserOrders(userId: string): Order[] {
+  return query('orders').where('userId', userId).all();
+}
+
 function getOrderById(id: string): Order | undefined {
   return findRecordById<Order>('orders', id);
 }
@@ -200,20 +287,63 @@ function generateLineItems(items: OrderItem[]) {
 
 function validateStockAvailability(items: OrderItem[]): { available: boolean; message?: string } {
   for (const item of items || []) {
-    const product = findRecordById<any>('products', item.productId);
+    const product = findRecordById<Product>('products', item.productId);
     if (!product) {
       return { available: false, message: `Product ${item.productId} not found` };
     }
-    if (product.stock < item.quantity) {
+    const variant = resolveVariant(product, item.variantId);
+    if (!variant.success) {
+      return { available: false, message: variant.message };
+    }
+    if (!checkStockAvailable(product, item.quantity, item.variantId)) {
       return { available: false, message: `Insufficient stock for ${product.name}` };
     }
   }
   return { available: true };
 }
 
-function createOrder(orderData: Partial<Order>): Order {
-  const newOrder = buildOrderObject(orderData);
-  return insertRecord<Order>('orders', newOrder);
+function resolveShippingAddress(data: Partial<Order> & { addressId?: string }): { success: boolean; data?: Address; message?: string } {
+  if (data.addressId && data.shippingAddress) {
+    return { success: false, message: 'Send either addressId or shippingAddress, not both' };
+  }
+  if (data.shippingAddress) {
+    return { success: true, data: data.shippingAddress };
+  }
+  const user = data.userId ? findRecordById<User>('users', data.userId) : undefined;
+  if (!user) {
+    return { success: true };
+  }
+  const address = data.addressId ? findAddress(user, data.addressId) : getDefaultAddress(user, 'shipping');
+  if (data.addressId && !address) {
+    return { success: false, message: 'Address not found in the user\'s address book' };
+  }
+  return { success: true, data: address ? toOrderAddress(address) : undefined };
+}
+
+function buildGuestOrderData(cart: Cart, body: Partial<Order> & { email?: string }): Partial<Order> & { items: OrderItem[] } {
+  return {
+    userId: null,
+    guestEmail: typeof body.email === 'string' ? body.email.trim().toLowerCase() : undefined,
+    items: cart.items.map(item => ({ productId: item.productId, variantId: item.variantId, price: item.price, quantity: item.quantity })),
+    shippingAddress: body.shippingAddress,
+    shippingMethod: body.shippingMethod
+  };
+}
+
+function sendGuestOrderConfirmation(order: Order): void {
+  sendMail({
+    to: order.guestEmail!,
+    subject: `Order ${order.id} received`,
+    text: `Thanks for your order!\n\nOrder: ${order.id}\nTotal: ${order.totals?.total}\n\nWe will email you again when it ships.`
+  });
+}
+
+function createOrder(orderData: Partial<Order>): TransactionResult<Order> {
+  return withTransaction(tx => {
+    const order = tx.insert<Order>('orders', buildOrderObject(orderData));
+    updateProductStock(tx, order.items);
+    return order;
+  });
 }
 
 function buildOrderObject(data: Partial<Order>): Order {
@@ -222,7 +352,8 @@ function buildOrderObject(data: Partial<Order>): Order {
   const totals = calculateTotal(items);
   return {
     id: orderId,
-    userId: data.userId || '',
+    userId: data.userId || null,
+    ...(data.guestEmail ? { guestEmail: data.guestEmail } : {}),
     items: items,
     shippingAddress: data.shippingAddress || { street: '', city: '', zipCode: '' },
     shippingMethod: data.shippingMethod || 'standard',
@@ -234,21 +365,28 @@ function buildOrderObject(data: Partial<Order>): Order {
 
 function enrichOrderItems(items: OrderItem[]): OrderItem[] {
   return items.map(item => {
-    const product = findRecordById<any>('products', item.productId);
+    const product = findRecordById<Product>('products', item.productId);
+    const variant = product && item.variantId ? findVariant(product, item.variantId) : undefined;
     return {
       ...item,
+      ...(variant ? { sku: variant.sku, options: variant.options } : {}),
+      ...(variant?.weight ? { weight: variant.weight } : {}),
       name: product ? product.name : 'Unknown',
-      price: product ? product.price : 0
+      price: product ? getVariantPrice(product, variant) : 0
     };
   });
 }
 
-function updateProductStock(items: OrderItem[]): void {
+function updateProductStock(tx: Transaction, items: OrderItem[]): void {
   for (const item of items || []) {
-    const product = findRecordById<any>('products', item.productId);
-    if (product) {
-      updateRecord('products', product.id, { stock: product.stock - item.quantity });
+    const product = tx.findById<Product>('products', item.productId);
+    if (!product) {
+      throw new Error(`Product ${item.productId} not found`);
+    }
+    if (!checkStockAvailable(product, item.quantity, item.variantId)) {
+      throw new Error(`Insufficient stock for ${product.name}`);
     }
+    tx.update<Product>('products', product.id, buildStockAdjustment(product, item.variantId, -item.quantity));
   }
 }
 
@@ -292,15 +430,19 @@ function canCancelOrder(order: Order): boolean {
   return cancellableStatuses.includes(order.status);
 }
 
-function cancelOrder(id: string): Order | null {
-  return updateOrderStatus(id, 'cancelled');
+function cancelOrder(order: Order): TransactionResult<Order> {
+  return withTransaction(tx => {
+    const cancelled = tx.update<Order>('orders', order.id, { status: 'cancelled' });
+    restoreProductStock(tx, order.items);
+    return cancelled;
+  });
 }
 
-function restoreProductStock(items: OrderItem[]): void {
+function restoreProductStock(tx: Transaction, items: OrderItem[]): void {
   for (const item of items || []) {
-    const product = findRecordById<any>('products', item.productId);
-    if (product) {
-      updateRecord('products', product.id, { stock: product.stock + item.quantity });
+    const product = tx.findById<Product>('products', item.productId, { includeDeleted: true });
+    if (product && (!item.variantId || findVariant(product, item.variantId))) {
+      tx.update<Product>('products', product.id, buildStockAdjustment(product, item.variantId, item.quantity));
     }
   }
 }
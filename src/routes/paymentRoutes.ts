@@ -1,33 +1,41 @@
 import { Router, Request, Response } from 'express';
-import { findRecordById, updateRecord, database } from '../utils/database';
+import { findRecordById, withTransaction } from '../utils/database';
+import { query } from '../utils/queryBuilder';
 import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
+import { requireAuth, requirePermission, canAccessOwnedRecord } from '../middleware/auth';
 import { validatePayment } from '../utils/validators';
 import { generateId, formatPrice } from '../utils/helpers';
-import { Payment, Order, PaymentStatus } from '../types';
+import { Payment, Order, PaymentStatus, Transaction, TransactionResult } from '../types';
 
 const router = Router();
 
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireAuth, (req: Request, res: Response) => {
   const payment = getPaymentById(req.params.id);
   if (!payment) {
     return res.status(404).json(formatErrorResponse({ message: 'Payment not found' }, 404));
   }
+  if (!canAccessPayment(req, payment)) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
   const sanitized = sanitizePaymentData(payment);
   const response = formatResponse(sanitized, 'Payment retrieved');
   res.json(response);
 });
 
-router.get('/order/:orderId', (req: Request, res: Response) => {
+router.get('/order/:orderId', requireAuth, (req: Request, res: Response) => {
   const order = findRecordById<Order>('orders', req.params.orderId);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
+  if (!canAccessOwnedRecord(req, order.userId, 'payments:read')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
   const payments = getOrderPayments(req.params.orderId);
   const response = formatResponse(payments, 'Order payments retrieved');
   res.json(response);
 });
 
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requireAuth, (req: Request, res: Response) => {
   const validation = validatePayment(req.body);
   if (!validation.isValid) {
     return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
@@ -38,19 +46,25 @@ router.post('/', (req: Request, res: Response) => {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
   
+  if (!canAccessOwnedRecord(req, order.userId, 'orders:write')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
+  
   const paymentResult = processPayment(req.body);
   if (!paymentResult.success) {
     return res.status(400).json(formatErrorResponse({ message: paymentResult.message }, 400));
   }
   
-  const payment = createPaymentRecord(req.body, paymentResult);
-  updateOrderPaymentStatus(req.body.orderId, 'paid');
+  const result = recordPayment(req.body, paymentResult);
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
   
-  const response = formatResponse(payment, 'Payment processed successfully');
+  const response = formatResponse(result.data, 'Payment processed successfully');
   res.status(201).json(response);
 });
 
-router.post('/:id/refund', (req: Request, res: Response) => {
+router.post('/:id/refund', requirePermission('payments:refund'), (req: Request, res: Response) => {
   const payment = getPaymentById(req.params.id);
   if (!payment) {
     return res.status(404).json(formatErrorResponse({ message: 'Payment not found' }, 404));
@@ -65,10 +79,12 @@ router.post('/:id/refund', (req: Request, res: Response) => {
     return res.status(400).json(formatErrorResponse({ message: refundResult.message }, 400));
   }
   
-  const refund = createRefundRecord(payment, refundResult);
-  updatePaymentStatus(req.params.id, 'refunded');
+  const result = recordRefund(payment, refundResult);
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
   
-  const response = formatResponse(refund, 'Refund processed successfully');
+  const response = formatResponse(result.data, 'Refund processed successfully');
   res.json(response);
 });
 
@@ -79,13 +95,16 @@ router.get('/methods/available', (req: Request, res: Response) => {
 });
 
 function getPaymentById(id: string): Payment | undefined {
-  const payments = database.payments || [];
-  return payments.find(p => p.id === id);
+  return findRecordById<Payment>('payments', id);
+}
+
+function canAccessPayment(req: Request, payment: Payment): boolean {
+  const order = findRecordById<Order>('orders', payment.orderId);
+  return canAccessOwnedRecord(req, order ? order.userId : null, 'payments:read');
 }
 
 function getOrderPayments(orderId: string): Payment[] {
-  const payments = database.payments || [];
-  return payments.filter(p => p.orderId === orderId);
+  return query('payments').where('orderId', orderId).all();
 }
 
 function sanitizePaymentData(payment: Payment): Payment {
@@ -163,11 +182,12 @@ function generateTransactionId(): string {
   return `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 }
 
-function createPaymentRecord(paymentData: any, result: any): Payment {
-  const payment = buildPaymentRecord(paymentData, result);
-  if (!database.payments) database.payments = [];
-  database.payments.push(payment);
-  return payment;
+function recordPayment(paymentData: any, chargeResult: any): TransactionResult<Payment> {
+  return withTransaction(tx => {
+    const payment = tx.insert<Payment>('payments', buildPaymentRecord(paymentData, chargeResult));
+    updateOrderPaymentStatus(tx, paymentData.orderId, 'paid');
+    return payment;
+  });
 }
 
 function buildPaymentRecord(data: any, result: any): Payment {
@@ -184,8 +204,8 @@ function buildPaymentRecord(data: any, result: any): Payment {
   };
 }
 
-function updateOrderPaymentStatus(orderId: string, status: string): void {
-  updateRecord('orders', orderId, { paymentStatus: status });
+function updateOrderPaymentStatus(tx: Transaction, orderId: string, status: string): void {
+  tx.update<Order>('orders', orderId, { paymentStatus: status });
 }
 
 function canRefundPayment(payment: Payment): boolean {
@@ -214,6 +234,13 @@ function generateRefundId(): string {
   return `REF-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 }
 
+function recordRefund(payment: Payment, refundResult: any): TransactionResult<ReturnType<typeof createRefundRecord>> {
+  return withTransaction(tx => {
+    updatePaymentStatus(tx, payment.id, 'refunded');
+    return createRefundRecord(payment, refundResult);
+  });
+}
+
 function createRefundRecord(payment: Payment, result: any) {
   return {
     id: generateId(),
@@ -227,13 +254,8 @@ function createRefundRecord(payment: Payment, result: any) {
   };
 }
 
-function updatePaymentStatus(id: string, status: PaymentStatus): void {
-  const payments = database.payments || [];
-  const index = payments.findIndex(p => p.id === id);
-  if (index !== -1) {
-    database.payments[index].status = status;
-    database.payments[index].updatedAt = new Date();
-  }
+function updatePaymentStatus(tx: Transaction, id: string, status: PaymentStatus): void {
+  tx.update<Payment>('payments', id, { status });
 }
 
 function getAvailablePaymentMethods() {
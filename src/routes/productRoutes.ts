@@ -1,109 +1,345 @@
 import { Router, Request, Response } from 'express';
-import { executeQuery, findRecordById, insertRecord, updateRecord, deleteRecord } from '../utils/database';
-import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
-import { validateProduct, validateRequiredField } from '../utils/validators';
-import { generateId, formatPrice, calculateSubtotal } from '../utils/helpers';
-import { Product } from '../types';
+import { executeQuery, findRecordById, updateRecord, restoreRecord } from '../utils/database';
+import { query } from '../utils/queryBuilder';
+import { deleteWithReferences, findMissingReferences } from '../utils/referentialIntegrity';
+import { formatResponse, formatErrorResponse, formatPaginatedResponse } from '../utils/responseFormatter';
+import { parseListQuery, paginate } from '../utils/pagination';
+import { requirePermission, parseIncludeDeleted } from '../middleware/auth';
+import { validateProduct, validateVariant, validateRequiredField } from '../utils/validators';
+import { formatPrice, calculateSubtotal, getAvailabilityStatus, parseBooleanFlag } from '../utils/helpers';
+import { searchProducts } from '../utils/searchIndex';
+import { createProduct, updateProduct } from '../utils/products';
+import { getEffectivePrice, readSaleFields } from '../utils/pricing';
+import { importProductsCsv, buildProductsCsv } from '../utils/productCsv';
+import { setEntityTag, checkIfMatch } from '../middleware/concurrency';
+import {
+  addVariant,
+  findMatchingVariant,
+  findSkuConflict,
+  findVariant,
+  findVariantsOutsideOptions,
+  getVariantPrice,
+  hasVariants,
+  removeVariant,
+  updateVariant
+} from '../utils/variants';
+import { AvailabilityStatus, DeleteResult, EffectivePrice, PriceHistoryEntry, Product, ProductSearchFilters, ProductVariant } from '../types';
+
+const AVAILABILITY_FILTERS: AvailabilityStatus[] = ['in_stock', 'low_stock', 'out_of_stock'];
+const PRODUCT_SORT_FIELDS = ['name', 'price', 'stock', 'averageRating', 'reviewCount', 'createdAt', 'updatedAt'];
+const PRODUCT_EDITABLE_FIELDS: (keyof Product)[] = ['sku', 'name', 'description', 'price', 'stock', 'categoryId', 'options'];
+const PRODUCT_SORT_ALIASES = { price: 'effectivePrice' };
+const PRODUCT_LIST_OPTIONS = { sortable: PRODUCT_SORT_FIELDS, defaultSort: 'createdAt', sortAliases: PRODUCT_SORT_ALIASES };
+const SEARCH_LIST_OPTIONS = { sortable: ['relevance', ...PRODUCT_SORT_FIELDS], defaultSort: '-relevance', sortAliases: PRODUCT_SORT_ALIASES };
+const VARIANT_LIST_OPTIONS = { sortable: ['sku', 'effectivePrice', 'stock'], defaultSort: 'sku' };
+const PRICE_HISTORY_LIST_OPTIONS = { sortable: ['createdAt', 'price', 'salePrice'], defaultSort: '-createdAt' };
 
 const router = Router();
 
 router.get('/', (req: Request, res: Response) => {
-  const products = getAllProducts();
-  const formattedProducts = formatProductList(products);
-  const response = formatResponse(formattedProducts, 'Products retrieved successfully');
+  const listQuery = parseListQuery(req, PRODUCT_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const products = getAllProducts(parseIncludeDeleted(req));
+  const page = paginate(formatProductList(products), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Products retrieved successfully', page.nextCursor);
   res.json(response);
 });
 
 router.get('/featured', (req: Request, res: Response) => {
+  const listQuery = parseListQuery(req, PRODUCT_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
   const products = getAllProducts();
-  const featured = filterFeaturedProducts(products);
-  const response = formatResponse(featured, 'Featured products retrieved');
+  const page = paginate(filterFeaturedProducts(products), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Featured products retrieved', page.nextCursor);
   res.json(response);
 });
 
 router.get('/search', (req: Request, res: Response) => {
-  const { query, category, minPrice, maxPrice } = req.query;
-  const products = getAllProducts();
-  const filtered = searchProducts(products, query as string, category as string, minPrice as string, maxPrice as string);
-  const sorted = sortProductsByRelevance(filtered, query as string);
-  const response = formatResponse(sorted, 'Search results');
-  res.json(response);
+  const filters = parseSearchFilters(req);
+  if (!filters.success) {
+    return res.status(400).json(formatErrorResponse({ message: filters.message }, 400));
+  }
+  const listQuery = parseListQuery(req, SEARCH_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const result = searchProducts(filters.data!);
+  const results = result.hits.map(hit => ({ ...formatProductItem(hit.product), relevance: hit.score }));
+  const page = paginate(results, listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Search results', page.nextCursor);
+  res.json({ ...response, facets: result.facets });
+});
+
+router.get('/export', requirePermission('products:write'), (req: Request, res: Response) => {
+  const format = req.query.format || 'csv';
+  if (format !== 'csv') {
+    return res.status(400).json(formatErrorResponse({ message: 'format must be csv' }, 400));
+  }
+  const filters = parseSearchFilters(req);
+  if (!filters.success) {
+    return res.status(400).json(formatErrorResponse({ message: filters.message }, 400));
+  }
+  const result = searchProducts(filters.data!);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${buildExportFilename()}"`);
+  buildProductsCsv(result.hits.map(hit => hit.product)).forEach(line => res.write(line));
+  res.end();
+});
+
+router.post('/import', requirePermission('products:write'), (req: Request, res: Response) => {
+  if (!req.is('text/csv')) {
+    return res.status(415).json(formatErrorResponse({ message: 'Send the file with Content-Type: text/csv' }, 415));
+  }
+  const dryRun = parseBooleanFlag(req.query.dryRun);
+  importProductsCsv(req, dryRun)
+    .then(report => {
+      const message = dryRun ? 'Import checked; nothing was saved' : 'Products imported';
+      res.json(formatResponse(report, message));
+    })
+    .catch((error: Error) => {
+      res.status(400).json(formatErrorResponse({ message: error.message }, 400));
+    });
 });
 
 router.get('/category/:categoryId', (req: Request, res: Response) => {
+  const listQuery = parseListQuery(req, PRODUCT_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
   const products = getAllProducts();
-  const filtered = filterByCategory(products, req.params.categoryId);
-  const response = formatResponse(filtered, 'Products by category');
+  const page = paginate(formatProductList(filterByCategory(products, req.params.categoryId)), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Products by category', page.nextCursor);
   res.json(response);
 });
 
 router.get('/:id', (req: Request, res: Response) => {
-  const product = getProductById(req.params.id);
+  const product = getProductById(req.params.id, parseIncludeDeleted(req));
   if (!product) {
     return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
   }
   const enriched = enrichProductData(product);
   const response = formatResponse(enriched, 'Product retrieved');
+  setEntityTag(res, product);
   res.json(response);
 });
 
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requirePermission('products:write'), (req: Request, res: Response) => {
   const validation = validateProduct(req.body);
   if (!validation.isValid) {
     return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
   }
+  const missingReferences = findMissingReferences('products', req.body);
+  if (missingReferences.length > 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Product references missing records' }, 400, missingReferences));
+  }
+  const skuOwner = req.body.sku ? findSkuConflict(String(req.body.sku)) : undefined;
+  if (skuOwner) {
+    return res.status(409).json(formatErrorResponse({ message: `SKU ${req.body.sku} is already used by product ${skuOwner.product.id}` }, 409));
+  }
   const product = createProduct(req.body);
   const response = formatResponse(product, 'Product created successfully');
   res.status(201).json(response);
 });
 
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requirePermission('products:write'), (req: Request, res: Response) => {
   const existingProduct = getProductById(req.params.id);
   if (!existingProduct) {
     return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
   }
-  const updated = updateProductData(req.params.id, req.body);
-  const response = formatResponse(updated, 'Product updated successfully');
+  if (!checkIfMatch(req, existingProduct)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Product has been modified by another request' }, 412));
+  }
+  const updates = readProductUpdates(existingProduct, req.body);
+  const missingReferences = findMissingReferences('products', { ...updates, id: req.params.id });
+  if (missingReferences.length > 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Product references missing records' }, 400, missingReferences));
+  }
+  const validation = validateProduct({ ...existingProduct, ...updates });
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  if (updates.sku !== undefined) {
+    const skuOwner = findSkuConflict(updates.sku, { productId: existingProduct.id });
+    if (skuOwner) {
+      return res.status(409).json(formatErrorResponse({ message: `SKU ${updates.sku} is already used by product ${skuOwner.product.id}` }, 409));
+    }
+  }
+  if (updates.options !== undefined) {
+    const stranded = findVariantsOutsideOptions(existingProduct.variants || [], updates.options);
+    if (stranded.length > 0) {
+      return res.status(409).json(formatErrorResponse({ message: 'Existing variants use option values that would be removed' }, 409, stranded.map(variant => variant.sku)));
+    }
+  }
+  const result = updateProduct(existingProduct, updates);
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
+  const response = formatResponse(result.data, 'Product updated successfully');
+  setEntityTag(res, result.data!);
   res.json(response);
 });
 
-router.patch('/:id/stock', (req: Request, res: Response) => {
+router.patch('/:id/stock', requirePermission('products:write'), (req: Request, res: Response) => {
   const product = getProductById(req.params.id);
   if (!product) {
     return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
   }
+  if (!checkIfMatch(req, product)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Product has been modified by another request' }, 412));
+  }
+  if (hasVariants(product)) {
+    return res.status(409).json(formatErrorResponse({ message: 'Stock is tracked per variant for this product' }, 409));
+  }
   const updated = updateProductStock(req.params.id, req.body.quantity);
   const response = formatResponse(updated, 'Stock updated');
+  setEntityTag(res, updated!);
+  res.json(response);
+});
+
+router.delete('/:id', requirePermission('products:write'), (req: Request, res: Response) => {
+  const product = getProductById(req.params.id);
+  if (!product) {
+    return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
+  }
+  const result = removeProduct(req.params.id);
+  if (result.blockingReferences) {
+    return res.status(409).json(formatErrorResponse({ message: 'Product is still referenced' }, 409, result.blockingReferences));
+  }
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
+  const response = formatResponse(result.data, 'Product deleted');
+  res.json(response);
+});
+
+router.post('/:id/restore', requirePermission('products:write'), (req: Request, res: Response) => {
+  const product = getProductById(req.params.id, true);
+  if (!product) {
+    return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
+  }
+  if (!product.deletedAt) {
+    return res.status(400).json(formatErrorResponse({ message: 'Product is not deleted' }, 400));
+  }
+  const restored = restoreProduct(req.params.id);
+  const response = formatResponse(restored, 'Product restored');
   res.json(response);
 });
 
-router.delete('/:id', (req: Request, res: Response) => {
+router.get('/:id/price-history', requirePermission('products:write'), (req: Request, res: Response) => {
+  const product = getProductById(req.params.id, parseIncludeDeleted(req));
+  if (!product) {
+    return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
+  }
+  const listQuery = parseListQuery(req, PRICE_HISTORY_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const page = paginate(getPriceHistory(product.id), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Price history retrieved', page.nextCursor);
+  res.json(response);
+});
+
+router.get('/:id/variants', (req: Request, res: Response) => {
   const product = getProductById(req.params.id);
   if (!product) {
     return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
   }
-  const deleted = removeProduct(req.params.id);
-  const response = formatResponse(deleted, 'Product deleted');
+  const listQuery = parseListQuery(req, VARIANT_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const page = paginate(formatVariantList(product), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Variants retrieved', page.nextCursor);
   res.json(response);
 });
 
-function getAllProducts(): Product[] {
-  const result = executeQuery<Product[]>('products', 'findAll');
+router.get('/:id/variants/:variantId', (req: Request, res: Response) => {
+  const product = getProductById(req.params.id);
+  const variant = product && findVariant(product, req.params.variantId);
+  if (!product || !variant) {
+    return res.status(404).json(formatErrorResponse({ message: 'Variant not found' }, 404));
+  }
+  const response = formatResponse(formatVariantItem(product, variant), 'Variant retrieved');
+  res.json(response);
+});
+
+router.post('/:id/variants', requirePermission('products:write'), (req: Request, res: Response) => {
+  const product = getProductById(req.params.id);
+  if (!product) {
+    return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
+  }
+  const validation = validateVariant(req.body, product.options || [], true);
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  const conflict = findVariantConflict(product, req.body);
+  if (conflict) {
+    return res.status(409).json(formatErrorResponse({ message: conflict }, 409));
+  }
+  const variant = addVariant(product, req.body);
+  const response = formatResponse(formatVariantItem(product, variant), 'Variant created');
+  res.status(201).json(response);
+});
+
+router.put('/:id/variants/:variantId', requirePermission('products:write'), (req: Request, res: Response) => {
+  const product = getProductById(req.params.id);
+  const current = product && findVariant(product, req.params.variantId);
+  if (!product || !current) {
+    return res.status(404).json(formatErrorResponse({ message: 'Variant not found' }, 404));
+  }
+  if (!checkIfMatch(req, product)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Product has been modified by another request' }, 412));
+  }
+  const validation = validateVariant(req.body, product.options || [], false);
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  const conflict = findVariantConflict(product, req.body, current.id);
+  if (conflict) {
+    return res.status(409).json(formatErrorResponse({ message: conflict }, 409));
+  }
+  const variant = updateVariant(product, current.id, req.body)!;
+  const response = formatResponse(formatVariantItem(product, variant), 'Variant updated');
+  setEntityTag(res, getProductById(product.id)!);
+  res.json(response);
+});
+
+router.delete('/:id/variants/:variantId', requirePermission('products:write'), (req: Request, res: Response) => {
+  const product = getProductById(req.params.id);
+  if (!product || !findVariant(product, req.params.variantId)) {
+    return res.status(404).json(formatErrorResponse({ message: 'Variant not found' }, 404));
+  }
+  if (!checkIfMatch(req, product)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Product has been modified by another request' }, 412));
+  }
+  const removed = removeVariant(product, req.params.variantId);
+  const response = formatResponse(removed, 'Variant deleted');
+  res.json(response);
+});
+
+function getAllProducts(includeDeleted: boolean = false): Product[] {
+  const result = executeQuery<Product[]>('products', 'findAll', { includeDeleted });
   return result.data || [];
 }
 
-function getProductById(id: string): Product | undefined {
-  return findRecordById<Product>('products', id);
+function getProductById(id: string, includeDeleted: boolean = false): Product | undefined {
+  return findRecordById<Product>('products', id, { includeDeleted });
 }
 
 function formatProductList(products: Product[]): Product[] {
   return products.map(product => formatProductItem(product));
 }
 
-function formatProductItem(product: Product): Product & { formattedPrice: string } {
+function formatProductItem(product: Product): Product & { effectivePrice: number; formattedPrice: string } {
+  const { effectivePrice } = getEffectivePrice(product);
   return {
     ...product,
-    formattedPrice: formatPrice(product.price)
+    effectivePrice,
+    formattedPrice: formatPrice(effectivePrice)
   };
 }
 
@@ -116,46 +352,40 @@ function isFeaturedProduct(product: Product): boolean {
   return product.price > 500 || product.stock < 20;
 }
 
-function searchProducts(products: Product[], query?: string, category?: string, minPrice?: string, maxPrice?: string): Product[] {
-  let filtered = products;
-  if (query) filtered = filterBySearchQuery(filtered, query);
-  if (category) filtered = filterByCategory(filtered, category);
-  if (minPrice) filtered = filterByMinPrice(filtered, parseFloat(minPrice));
-  if (maxPrice) filtered = filterByMaxPrice(filtered, parseFloat(maxPrice));
-  return filtered;
-}
-
-function filterBySearchQuery(products: Product[], query: string): Product[] {
-  const lowerQuery = query.toLowerCase();
-  return products.filter(p => matchesSearchQuery(p, lowerQuery));
+function parseSearchFilters(req: Request): { success: boolean; data?: ProductSearchFilters; message?: string } {
+  const { query, category, minPrice, maxPrice, minRating, availability } = req.query;
+  const numbers = { minPrice, maxPrice, minRating };
+  const filters: ProductSearchFilters = {
+    query: typeof query === 'string' ? query : undefined,
+    category: typeof category === 'string' && category ? category : undefined
+  };
+  for (const [name, value] of Object.entries(numbers)) {
+    if (value === undefined || value === '') continue;
+    const parsed = parseFloat(String(value));
+    if (isNaN(parsed)) {
+      return { success: false, message: `${name} must be a number` };
+    }
+    filters[name as keyof typeof numbers] = parsed;
+  }
+  if (availability !== undefined && availability !== '') {
+    if (!AVAILABILITY_FILTERS.includes(availability as AvailabilityStatus)) {
+      return { success: false, message: `availability must be one of: ${AVAILABILITY_FILTERS.join(', ')}` };
+    }
+    filters.availability = availability as AvailabilityStatus;
+  }
+  return { success: true, data: filters };
 }
 
-function matchesSearchQuery(product: Product, query: string): boolean {
-  return product.name.toLowerCase().includes(query);
+function buildExportFilename(): string {
+  return `products-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
 }
 
 function filterByCategory(products: Product[], categoryId: string): Product[] {
   return products.filter(p => p.categoryId === categoryId);
 }
 
-function filterByMinPrice(products: Product[], minPrice: number): Product[] {
-  return products.filter(p => p.price >= minPrice);
-}
-
-function filterByMaxPrice(products: Product[], maxPrice: number): Product[] {
-  return products.filter(p => p.price <= maxPrice);
-}
-
-function sortProductsByRelevance(products: Product[], query?: string): Product[] {
-  if (!query) return products;
-  return products.sort((a, b) => calculateRelevanceScore(b, query) - calculateRelevanceScore(a, query));
-}
-
-function calculateRelevanceScore(product: Product, query: string): number {
-  let score = 0;
-  if (product.name.toLowerCase().startsWith(query.toLowerCase())) score += 10;
-  if (product.name.toLowerCase().includes(query.toLowerCase())) score += 5;
-  return score;
+function getPriceHistory(productId: string): PriceHistoryEntry[] {
+  return query('priceHistory').where('productId', productId).all();
 }
 
 function enrichProductData(product: Product): Product & { availability: any; priceInfo: any } {
@@ -166,58 +396,83 @@ function enrichProductData(product: Product): Product & { availability: any; pri
 
 function checkProductAvailability(product: Product) {
   return {
-    inStock: product.stock > 0,
-    quantity: product.stock,
-    status: getAvailabilityStatus(product.stock)
+    ...checkStockLevel(product.stock),
+    ...(hasVariants(product) ? { variants: product.variants!.map(variant => ({ variantId: variant.id, sku: variant.sku, ...checkStockLevel(variant.stock) })) } : {})
   };
 }
 
-function getAvailabilityStatus(stock: number): string {
-  if (stock === 0) return 'out_of_stock';
-  if (stock < 10) return 'low_stock';
-  return 'in_stock';
-}
-
-function calculatePriceInfo(product: Product) {
-  const originalPrice = product.price;
-  const discountedPrice = applyProductDiscount(originalPrice);
+function checkStockLevel(stock: number) {
   return {
-    original: formatPrice(originalPrice),
-    discounted: formatPrice(discountedPrice),
-    savings: formatPrice(originalPrice - discountedPrice)
+    inStock: stock > 0,
+    quantity: stock,
+    status: getAvailabilityStatus(stock)
   };
 }
 
-function applyProductDiscount(price: number): number {
-  return price * 0.9;
+function calculatePriceInfo(product: Product): EffectivePrice & { formattedPrice: string; formattedCompareAtPrice: string | null; savings: string } {
+  const pricing = getEffectivePrice(product);
+  const compareAtPrice = pricing.compareAtPrice;
+  return {
+    ...pricing,
+    formattedPrice: formatPrice(pricing.effectivePrice),
+    formattedCompareAtPrice: compareAtPrice === null ? null : formatPrice(compareAtPrice),
+    savings: formatPrice(compareAtPrice === null ? 0 : compareAtPrice - pricing.effectivePrice)
+  };
 }
 
-function createProduct(productData: Partial<Product>): Product {
-  const newProduct = buildProductObject(productData);
-  return insertRecord<Product>('products', newProduct);
+function formatVariantList(product: Product) {
+  return (product.variants || []).map(variant => formatVariantItem(product, variant));
 }
 
-function buildProductObject(data: Partial<Product>): Product {
+function formatVariantItem(product: Product, variant: ProductVariant) {
+  const price = getVariantPrice(product, variant);
   return {
-    id: generateId(),
-    name: data.name || '',
-    price: parseFloat(String(data.price)) || 0,
-    categoryId: data.categoryId || '',
-    stock: parseInt(String(data.stock)) || 0,
-    description: data.description || ''
+    ...variant,
+    productId: product.id,
+    effectivePrice: price,
+    formattedPrice: formatPrice(price),
+    availability: checkStockLevel(variant.stock)
   };
 }
 
-function updateProductData(id: string, updates: Partial<Product>): Product | null {
-  return updateRecord<Product>('products', id, updates);
+function findVariantConflict(product: Product, input: Partial<ProductVariant>, variantId?: string): string | undefined {
+  if (input.sku !== undefined) {
+    const owner = findSkuConflict(String(input.sku), { variantId });
+    if (owner) {
+      return `SKU ${input.sku} is already used by product ${owner.product.id}`;
+    }
+  }
+  if (input.options !== undefined) {
+    const match = findMatchingVariant(product, input.options);
+    if (match && match.id !== variantId) {
+      return `Variant ${match.sku} already has these options`;
+    }
+  }
+  return undefined;
+}
+
+function readProductUpdates(product: Product, body: Partial<Product>): Partial<Product> {
+  const updates: Partial<Product> = {};
+  PRODUCT_EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) (updates as Record<string, unknown>)[field] = body[field];
+  });
+  if (updates.sku !== undefined) updates.sku = String(updates.sku).trim();
+  if (updates.price !== undefined) updates.price = parseFloat(String(updates.price));
+  if (updates.stock !== undefined) updates.stock = parseInt(String(updates.stock), 10);
+  if (hasVariants(product)) delete updates.stock;
+  return { ...updates, ...readSaleFields(body) };
 }
 
 function updateProductStock(id: string, quantity: number): Product | null {
   return updateRecord<Product>('products', id, { stock: quantity });
 }
 
-function removeProduct(id: string): Product | null {
-  return deleteRecord<Product>('products', id);
+function removeProduct(id: string): DeleteResult<Product> {
+  return deleteWithReferences<Product>('products', id);
+}
+
+function restoreProduct(id: string): Product | null {
+  return restoreRecord<Product>('products', id);
 }
 
 export default router;
@@ -1,10 +1,17 @@
 import { Router, Request, Response } from 'express';
-import { findRecordById, updateRecord, database } from '../utils/database';
-import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
+import { findRecordById, insertRecord, updateRecord, updateDerivedFields, deleteRecord, restoreRecord } from '../utils/database';
+import { query } from '../utils/queryBuilder';
+import { findMissingReferences } from '../utils/referentialIntegrity';
+import { formatResponse, formatErrorResponse, formatPaginatedResponse } from '../utils/responseFormatter';
+import { parseListQuery, paginate } from '../utils/pagination';
+import { requireAuth, requirePermission, canAccessOwnedRecord, hasPermission, parseIncludeDeleted } from '../middleware/auth';
 import { generateId } from '../utils/helpers';
+import { setEntityTag, checkIfMatch } from '../middleware/concurrency';
 import { validateRequiredField } from '../utils/validators';
 import { Review, Product } from '../types';
 
+const REVIEW_LIST_OPTIONS = { sortable: ['createdAt', 'updatedAt', 'rating'], defaultSort: '-createdAt' };
+
 const router = Router();
 
 router.get('/product/:productId', (req: Request, res: Response) => {
@@ -13,59 +20,84 @@ router.get('/product/:productId', (req: Request, res: Response) => {
     return res.status(404).json(formatErrorResponse({ message: 'Product not found' }, 404));
   }
   
+  const listQuery = parseListQuery(req, REVIEW_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
   const reviews = getProductReviews(req.params.productId);
   const stats = calculateReviewStats(reviews);
-  const response = formatResponse({ reviews, stats }, 'Reviews retrieved');
+  const page = paginate(reviews, listQuery.data!);
+  const response = formatPaginatedResponse({ reviews: page.items, stats }, page.page, page.limit, page.total, 'Reviews retrieved', page.nextCursor);
   res.json(response);
 });
 
 router.get('/:id', (req: Request, res: Response) => {
-  const review = getReviewById(req.params.id);
+  const review = getReviewById(req.params.id, parseIncludeDeleted(req));
   if (!review) {
     return res.status(404).json(formatErrorResponse({ message: 'Review not found' }, 404));
   }
   const enriched = enrichReviewData(review);
   const response = formatResponse(enriched, 'Review retrieved');
+  setEntityTag(res, review);
   res.json(response);
 });
 
-router.post('/', (req: Request, res: Response) => {
-  const validation = validateReviewData(req.body);
+router.post('/', requireAuth, (req: Request, res: Response) => {
+  const reviewData = hasPermission(req, 'reviews:moderate') ? req.body : { ...req.body, userId: req.user!.id };
+  const validation = validateReviewData(reviewData);
   if (!validation.valid) {
     return res.status(400).json(formatErrorResponse({ message: validation.message }, 400));
   }
   
-  const existingReview = checkExistingReview(req.body.userId, req.body.productId);
+  const missingReferences = findMissingReferences('reviews', reviewData);
+  if (missingReferences.length > 0) {
+    return res.status(400).json(formatErrorResponse({ message: 'Review references missing records' }, 400, missingReferences));
+  }
+  
+  const existingReview = checkExistingReview(reviewData.userId, reviewData.productId);
   if (existingReview) {
     return res.status(409).json(formatErrorResponse({ message: 'User already reviewed this product' }, 409));
   }
   
-  const review = createReview(req.body);
-  updateProductRating(req.body.productId);
+  const review = createReview(reviewData);
+  updateProductRating(reviewData.productId);
   
   const response = formatResponse(review, 'Review created');
   res.status(201).json(response);
 });
 
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requireAuth, (req: Request, res: Response) => {
   const review = getReviewById(req.params.id);
   if (!review) {
     return res.status(404).json(formatErrorResponse({ message: 'Review not found' }, 404));
   }
   
+  if (!canAccessOwnedRecord(req, review.userId, 'reviews:moderate')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
+  
+  if (!checkIfMatch(req, review)) {
+    return res.status(412).json(formatErrorResponse({ message: 'Review has been modified by another request' }, 412));
+  }
+  
   const updated = updateReviewData(req.params.id, req.body);
   updateProductRating(review.productId);
   
   const response = formatResponse(updated, 'Review updated');
+  setEntityTag(res, updated!);
   res.json(response);
 });
 
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requireAuth, (req: Request, res: Response) => {
   const review = getReviewById(req.params.id);
   if (!review) {
     return res.status(404).json(formatErrorResponse({ message: 'Review not found' }, 404));
   }
   
+  if (!canAccessOwnedRecord(req, review.userId, 'reviews:moderate')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
+  
   const deleted = removeReview(req.params.id);
   updateProductRating(review.productId);
   
@@ -73,7 +105,23 @@ router.delete('/:id', (req: Request, res: Response) => {
   res.json(response);
 });
 
-router.post('/:id/helpful', (req: Request, res: Response) => {
+router.post('/:id/restore', requirePermission('reviews:moderate'), (req: Request, res: Response) => {
+  const review = getReviewById(req.params.id, true);
+  if (!review) {
+    return res.status(404).json(formatErrorResponse({ message: 'Review not found' }, 404));
+  }
+  if (!review.deletedAt) {
+    return res.status(400).json(formatErrorResponse({ message: 'Review is not deleted' }, 400));
+  }
+  
+  const restored = restoreReview(req.params.id);
+  updateProductRating(review.productId);
+  
+  const response = formatResponse(restored, 'Review restored');
+  res.json(response);
+});
+
+router.post('/:id/helpful', requireAuth, (req: Request, res: Response) => {
   const review = getReviewById(req.params.id);
   if (!review) {
     return res.status(404).json(formatErrorResponse({ message: 'Review not found' }, 404));
@@ -85,27 +133,16 @@ router.post('/:id/helpful', (req: Request, res: Response) => {
 });
 
 function getProductReviews(productId: string): Review[] {
-  const reviews = database.reviews || [];
-  const productReviews = filterReviewsByProduct(reviews, productId);
-  return sortReviewsByDate(productReviews);
-}
-
-function filterReviewsByProduct(reviews: Review[], productId: string): Review[] {
-  return reviews.filter(r => r.productId === productId);
+  return query('reviews').where('productId', productId).orderBy('createdAt', 'desc').all();
 }
 
-function sortReviewsByDate(reviews: Review[]): Review[] {
-  return reviews.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
-}
-
-function getReviewById(id: string): Review | undefined {
-  const reviews = database.reviews || [];
-  return reviews.find(r => r.id === id);
+function getReviewById(id: string, includeDeleted: boolean = false): Review | undefined {
+  return findRecordById<Review>('reviews', id, { includeDeleted });
 }
 
 function enrichReviewData(review: Review) {
-  const user = findRecordById<any>('users', review.userId);
-  const product = findRecordById<Product>('products', review.productId);
+  const user = review.userId ? findRecordById<any>('users', review.userId, { includeDeleted: true }) : undefined;
+  const product = findRecordById<Product>('products', review.productId, { includeDeleted: true });
   return {
     ...review,
     userName: user ? user.name : 'Anonymous',
@@ -165,15 +202,12 @@ function validateRating(rating: unknown): boolean {
 }
 
 function checkExistingReview(userId: string, productId: string): Review | undefined {
-  const reviews = database.reviews || [];
-  return reviews.find(r => r.userId === userId && r.productId === productId);
+  return query('reviews').where('productId', productId).where('userId', userId).first();
 }
 
 function createReview(data: Partial<Review>): Review {
   const newReview = buildReviewObject(data);
-  if (!database.reviews) database.reviews = [];
-  database.reviews.push(newReview);
-  return newReview;
+  return insertRecord<Review>('reviews', newReview);
 }
 
 function buildReviewObject(data: Partial<Review>): Review {
@@ -191,14 +225,8 @@ function buildReviewObject(data: Partial<Review>): Review {
 }
 
 function updateReviewData(id: string, updates: Partial<Review>): Review | null {
-  const reviews = database.reviews || [];
-  const index = reviews.findIndex(r => r.id === id);
-  if (index !== -1) {
-    const safeUpdates = filterReviewUpdates(updates);
-    database.reviews[index] = { ...database.reviews[index], ...safeUpdates, updatedAt: new Date() };
-    return database.reviews[index];
-  }
-  return null;
+  const safeUpdates = filterReviewUpdates(updates);
+  return updateRecord<Review>('reviews', id, safeUpdates);
 }
 
 function filterReviewUpdates(updates: Partial<Review>): Partial<Review> {
@@ -207,30 +235,25 @@ function filterReviewUpdates(updates: Partial<Review>): Partial<Review> {
 }
 
 function removeReview(id: string): Review | null {
-  const reviews = database.reviews || [];
-  const index = reviews.findIndex(r => r.id === id);
-  if (index !== -1) {
-    return database.reviews.splice(index, 1)[0];
-  }
-  return null;
+  return deleteRecord<Review>('reviews', id);
+}
+
+function restoreReview(id: string): Review | null {
+  return restoreRecord<Review>('reviews', id);
 }
 
 function markReviewHelpful(id: string): Review | null {
-  const reviews = database.reviews || [];
-  const index = reviews.findIndex(r => r.id === id);
-  if (index !== -1) {
-    database.reviews[index].helpfulCount += 1;
-    return database.reviews[index];
-  }
-  return null;
+  const review = getReviewById(id);
+  if (!review) return null;
+  return updateRecord<Review>('reviews', id, { helpfulCount: review.helpfulCount + 1 });
 }
 
 function updateProductRating(productId: string): void {
   const reviews = getProductReviews(productId);
   const stats = calculateReviewStats(reviews);
-  updateRecord('products', productId, { 
-    averageRating: stats.averageRating, 
-    reviewCount: stats.totalReviews 
+  updateDerivedFields<Product>('products', productId, {
+    averageRating: stats.averageRating,
+    reviewCount: stats.totalReviews
   });
 }
 
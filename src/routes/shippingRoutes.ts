@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
-import { findRecordById, updateRecord, database } from '../utils/database';
+import { findRecordById, withTransaction } from '../utils/database';
+import { query } from '../utils/queryBuilder';
 import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
+import { requireAuth, requirePermission, canAccessOwnedRecord } from '../middleware/auth';
 import { generateId, formatPrice } from '../utils/helpers';
-import { Shipment, Order, Address, TrackingEvent, ShipmentStatus } from '../types';
+import { Shipment, Order, Address, TrackingEvent, ShipmentStatus, Transaction, TransactionResult } from '../types';
 
 const router = Router();
 
@@ -13,11 +15,14 @@ router.get('/rates', (req: Request, res: Response) => {
   res.json(response);
 });
 
-router.get('/order/:orderId', (req: Request, res: Response) => {
+router.get('/order/:orderId', requireAuth, (req: Request, res: Response) => {
   const order = findRecordById<Order>('orders', req.params.orderId);
   if (!order) {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
+  if (!canAccessOwnedRecord(req, order.userId, 'shipping:read')) {
+    return res.status(403).json(formatErrorResponse({ message: 'Access denied' }, 403));
+  }
   const shipment = getOrderShipment(req.params.orderId);
   const response = formatResponse(shipment, 'Shipment info retrieved');
   res.json(response);
@@ -33,7 +38,7 @@ router.get('/tracking/:trackingNumber', (req: Request, res: Response) => {
   res.json(response);
 });
 
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requirePermission('shipping:update'), (req: Request, res: Response) => {
   const validation = validateShipmentData(req.body);
   if (!validation.valid) {
     return res.status(400).json(formatErrorResponse({ message: validation.message }, 400));
@@ -44,26 +49,27 @@ router.post('/', (req: Request, res: Response) => {
     return res.status(404).json(formatErrorResponse({ message: 'Order not found' }, 404));
   }
   
-  const shipment = createShipment(req.body, order);
-  updateOrderShippingStatus(req.body.orderId, 'shipped');
+  const result = createShipment(req.body, order);
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
   
-  const response = formatResponse(shipment, 'Shipment created');
+  const response = formatResponse(result.data, 'Shipment created');
   res.status(201).json(response);
 });
 
-router.patch('/:id/status', (req: Request, res: Response) => {
+router.patch('/:id/status', requirePermission('shipping:update'), (req: Request, res: Response) => {
   const shipment = getShipmentById(req.params.id);
   if (!shipment) {
     return res.status(404).json(formatErrorResponse({ message: 'Shipment not found' }, 404));
   }
   
-  const updated = updateShipmentStatus(req.params.id, req.body.status, req.body.location);
-  
-  if (req.body.status === 'delivered') {
-    updateOrderShippingStatus(shipment.orderId, 'delivered');
+  const result = updateShipmentStatus(shipment, req.body.status, req.body.location);
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
   }
   
-  const response = formatResponse(updated, 'Shipment status updated');
+  const response = formatResponse(result.data, 'Shipment status updated');
   res.json(response);
 });
 
@@ -111,18 +117,15 @@ function calculateRateCost(rate: { basePrice: number; perPound: number }, weight
 }
 
 function getOrderShipment(orderId: string): Shipment | undefined {
-  const shipments = database.shipments || [];
-  return shipments.find(s => s.orderId === orderId);
+  return query('shipments').where('orderId', orderId).first();
 }
 
 function getShipmentById(id: string): Shipment | undefined {
-  const shipments = database.shipments || [];
-  return shipments.find(s => s.id === id);
+  return findRecordById<Shipment>('shipments', id);
 }
 
 function getShipmentByTracking(trackingNumber: string): Shipment | undefined {
-  const shipments = database.shipments || [];
-  return shipments.find(s => s.trackingNumber === trackingNumber);
+  return query('shipments').where('trackingNumber', trackingNumber).first();
 }
 
 function getTrackingDetails(shipment: Shipment) {
@@ -170,11 +173,12 @@ function validateShipmentData(data: any): { valid: boolean; message?: string } {
   return { valid: true };
 }
 
-function createShipment(data: any, order: Order): Shipment {
-  const shipment = buildShipmentObject(data, order);
-  if (!database.shipments) database.shipments = [];
-  database.shipments.push(shipment);
-  return shipment;
+function createShipment(data: any, order: Order): TransactionResult<Shipment> {
+  return withTransaction(tx => {
+    const shipment = tx.insert<Shipment>('shipments', buildShipmentObject(data, order));
+    updateOrderShippingStatus(tx, order.id, 'shipped');
+    return shipment;
+  });
 }
 
 function buildShipmentObject(data: any, order: Order): Shipment {
@@ -219,17 +223,16 @@ function createTrackingEvent(status: string, description: string, location: stri
   };
 }
 
-function updateShipmentStatus(id: string, status: ShipmentStatus, location?: string): Shipment | null {
-  const shipments = database.shipments || [];
-  const index = shipments.findIndex(s => s.id === id);
-  if (index !== -1) {
-    const event = createTrackingEvent(status, getStatusDescription(status), location || 'Unknown');
-    database.shipments[index].status = status;
-    database.shipments[index].trackingEvents.push(event);
-    database.shipments[index].updatedAt = new Date();
-    return database.shipments[index];
-  }
-  return null;
+function updateShipmentStatus(shipment: Shipment, status: ShipmentStatus, location?: string): TransactionResult<Shipment> {
+  const event = createTrackingEvent(status, getStatusDescription(status), location || 'Unknown');
+  const trackingEvents = [...(shipment.trackingEvents || []), event];
+  return withTransaction(tx => {
+    const updated = tx.update<Shipment>('shipments', shipment.id, { status, trackingEvents });
+    if (status === 'delivered') {
+      updateOrderShippingStatus(tx, shipment.orderId, 'delivered');
+    }
+    return updated;
+  });
 }
 
 function getStatusDescription(status: string): string {
@@ -243,8 +246,8 @@ function getStatusDescription(status: string): string {
   return descriptions[status] || status;
 }
 
-function updateOrderShippingStatus(orderId: string, status: string): void {
-  updateRecord('orders', orderId, { shippingStatus: status });
+function updateOrderShippingStatus(tx: Transaction, orderId: string, status: string): void {
+  tx.update<Order>('orders', orderId, { shippingStatus: status });
 }
 
 function getAvailableCarriers() {
@@ -1,49 +1,167 @@
 import { Router, Request, Response } from 'express';
-import { executeQuery, findRecordById, insertRecord, updateRecord, deleteRecord, database } from '../utils/database';
-import { formatResponse, formatErrorResponse } from '../utils/responseFormatter';
-import { validateUser, validateEmailFormat, validateRequiredField } from '../utils/validators';
-import { generateId } from '../utils/helpers';
-import { User, Order } from '../types';
+import { executeQuery, findRecordById, insertRecord, updateRecord, restoreRecord } from '../utils/database';
+import { deleteWithReferences } from '../utils/referentialIntegrity';
+import { query } from '../utils/queryBuilder';
+import { formatResponse, formatErrorResponse, formatPaginatedResponse } from '../utils/responseFormatter';
+import { parseListQuery, paginate } from '../utils/pagination';
+import { requireAuth, requirePermission, requireSelf, hasPermission, parseIncludeDeleted, readBearerToken } from '../middleware/auth';
+import { validateUser, validateEmailFormat, validateRequiredField, validatePassword, validateShippingAddress } from '../utils/validators';
+import { generateId, parseBooleanFlag } from '../utils/helpers';
+import { hashPassword, verifyPasswordHash, needsRehash } from '../utils/passwords';
+import { issueTokenPair, rotateRefreshToken, revokeRefreshToken, revokeAccessToken, verifyAccessToken, revokeUserRefreshTokens } from '../utils/tokens';
+import { issueAccountToken, consumeAccountToken, invalidateAccountTokens, getAccountTokenLifetime } from '../utils/accountTokens';
+import { checkLoginThrottle, recordLoginFailure, clearAccountFailures } from '../utils/loginThrottle';
+import {
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifyTwoFactorCode,
+  consumeRecoveryCode,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  isTwoFactorRequired
+} from '../utils/twoFactor';
+import { getAddressBook, findAddress, addAddress, updateAddress, removeAddress } from '../utils/addressBook';
+import { CART_TOKEN_HEADER, findGuestCart, mergeGuestCart } from '../utils/carts';
+import { buildUserExport, findOpenOrders, eraseUser, toPublicUser } from '../utils/privacy';
+import { sendMail } from '../utils/mail';
+import { logSecurityEvent } from '../middleware/logger';
+import { setEntityTag, checkIfMatch } from '../middleware/concurrency';
+import { User, Order, DeleteResult, LoginChallenge, LoginThrottleStatus, PublicUser, SecurityEventType } from '../types';
+
+const USER_LIST_OPTIONS = { sortable: ['createdAt', 'updatedAt', 'name', 'email', 'role'], defaultSort: 'createdAt' };
+const USER_ORDER_LIST_OPTIONS = { sortable: ['createdAt', 'updatedAt', 'status'], defaultSort: '-createdAt' };
+const PROFILE_FIELDS: (keyof User)[] = ['name', 'email'];
 
 const router = Router();
 
-router.get('/', (req: Request, res: Response) => {
-  const users = getAllUsers();
-  const sanitized = sanitizeUserList(users);
-  const response = formatResponse(sanitized, 'Users retrieved');
+router.get('/', requirePermission('users:read'), (req: Request, res: Response) => {
+  const listQuery = parseListQuery(req, USER_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const users = getAllUsers(parseIncludeDeleted(req));
+  const page = paginate(sanitizeUserList(users), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'Users retrieved', page.nextCursor);
   res.json(response);
 });
 
-router.get('/:id', (req: Request, res: Response) => {
-  const user = getUserById(req.params.id);
+router.get('/:id', requireSelf('id', 'users:read'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id, parseIncludeDeleted(req));
   if (!user) {
     return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
   }
   const sanitized = sanitizeUserData(user);
   const response = formatResponse(sanitized, 'User retrieved');
+  setEntityTag(res, user);
   res.json(response);
 });
 
-router.get('/:id/orders', (req: Request, res: Response) => {
+router.get('/:id/export', requireSelf('id', 'users:read'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id, parseIncludeDeleted(req));
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  const bundle = buildUserExport(user);
+  res.setHeader('Content-Disposition', `attachment; filename="user-${user.id}-export.json"`);
+  res.json(bundle);
+});
+
+router.get('/:id/orders', requireSelf('id', 'users:read'), (req: Request, res: Response) => {
   const user = getUserById(req.params.id);
   if (!user) {
     return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
   }
-  const orders = getUserOrders(req.params.id);
-  const response = formatResponse(orders, 'User orders retrieved');
+  const listQuery = parseListQuery(req, USER_ORDER_LIST_OPTIONS);
+  if (!listQuery.success) {
+    return res.status(400).json(formatErrorResponse({ message: listQuery.message }, 400));
+  }
+  const page = paginate(getUserOrders(req.params.id), listQuery.data!);
+  const response = formatPaginatedResponse(page.items, page.page, page.limit, page.total, 'User orders retrieved', page.nextCursor);
   res.json(response);
 });
 
-router.get('/:id/addresses', (req: Request, res: Response) => {
+router.get('/:id/addresses', requireSelf('id', 'users:read'), (req: Request, res: Response) => {
   const user = getUserById(req.params.id);
   if (!user) {
     return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
   }
-  const addresses = getUserAddresses(user);
+  const addresses = getAddressBook(user);
   const response = formatResponse(addresses, 'User addresses retrieved');
   res.json(response);
 });
 
+router.get('/:id/addresses/:addressId', requireSelf('id', 'users:read'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  const address = findAddress(user, req.params.addressId);
+  if (!address) {
+    return res.status(404).json(formatErrorResponse({ message: 'Address not found' }, 404));
+  }
+  const response = formatResponse(address, 'Address retrieved');
+  res.json(response);
+});
+
+router.post('/:id/addresses', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  const validation = validateShippingAddress(req.body);
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  
+  const address = addAddress(user, req.body);
+  const response = formatResponse(address, 'Address added');
+  res.status(201).json(response);
+});
+
+router.put('/:id/addresses/:addressId', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  const current = findAddress(user, req.params.addressId);
+  if (!current) {
+    return res.status(404).json(formatErrorResponse({ message: 'Address not found' }, 404));
+  }
+  
+  if (!checkIfMatch(req, user)) {
+    return res.status(412).json(formatErrorResponse({ message: 'User has been modified by another request' }, 412));
+  }
+  
+  const validation = validateShippingAddress({ ...current, ...req.body });
+  if (!validation.isValid) {
+    return res.status(400).json(formatErrorResponse({ message: JSON.stringify(validation.errors) }, 400));
+  }
+  
+  const updated = updateAddress(user, current.id, req.body);
+  const response = formatResponse(updated, 'Address updated');
+  res.json(response);
+});
+
+router.delete('/:id/addresses/:addressId', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (!checkIfMatch(req, user)) {
+    return res.status(412).json(formatErrorResponse({ message: 'User has been modified by another request' }, 412));
+  }
+  
+  const removed = removeAddress(user, req.params.addressId);
+  if (!removed) {
+    return res.status(404).json(formatErrorResponse({ message: 'Address not found' }, 404));
+  }
+  const response = formatResponse(removed, 'Address deleted');
+  res.json(response);
+});
+
 router.post('/', (req: Request, res: Response) => {
   const validation = validateUser(req.body);
   if (!validation.isValid) {
@@ -55,11 +173,76 @@ router.post('/', (req: Request, res: Response) => {
   }
   
   const user = createUser(req.body);
+  sendVerificationEmail(user);
   const sanitized = sanitizeUserData(user);
   const response = formatResponse(sanitized, 'User created successfully');
   res.status(201).json(response);
 });
 
+router.post('/email/verify', (req: Request, res: Response) => {
+  if (!validateRequiredField(req.body.token)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Verification token required' }, 400));
+  }
+  
+  const userId = consumeAccountToken(req.body.token, 'email-verification');
+  if (!userId) {
+    return res.status(400).json(formatErrorResponse({ message: 'Invalid or expired verification token' }, 400));
+  }
+  
+  const updated = markEmailVerified(userId);
+  const response = formatResponse(sanitizeUserData(updated!), 'Email verified');
+  res.json(response);
+});
+
+router.post('/email/verification', requireAuth, (req: Request, res: Response) => {
+  const user = getUserById(req.user!.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (user.emailVerified !== false) {
+    return res.status(400).json(formatErrorResponse({ message: 'Email is already verified' }, 400));
+  }
+  
+  sendVerificationEmail(user);
+  const response = formatResponse({ email: user.email }, 'Verification email sent');
+  res.json(response);
+});
+
+router.post('/password/forgot', (req: Request, res: Response) => {
+  if (!validateRequiredField(req.body.email) || !validateEmailFormat(req.body.email)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Valid email required' }, 400));
+  }
+  
+  const user = findUserByEmail(req.body.email);
+  if (user) {
+    sendPasswordResetEmail(user);
+  }
+  
+  const response = formatResponse({ email: req.body.email }, 'If the account exists, a reset link has been sent');
+  res.json(response);
+});
+
+router.post('/password/reset', (req: Request, res: Response) => {
+  const { token, password } = req.body;
+  if (!validateRequiredField(token)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Reset token required' }, 400));
+  }
+  
+  if (!validatePassword(password)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Password must be at least 8 characters' }, 400));
+  }
+  
+  const userId = consumeAccountToken(token, 'password-reset');
+  if (!userId || !getUserById(userId)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Invalid or expired reset token' }, 400));
+  }
+  
+  resetUserPassword(userId, password);
+  const response = formatResponse({ success: true }, 'Password has been reset');
+  res.json(response);
+});
+
 router.post('/login', (req: Request, res: Response) => {
   const { email, password } = req.body;
   
@@ -67,84 +250,329 @@ router.post('/login', (req: Request, res: Response) => {
     return res.status(400).json(formatErrorResponse({ message: 'Email and password required' }, 400));
   }
   
+  const throttle = checkLoginThrottle(email, getClientIp(req));
+  if (!throttle.allowed) {
+    return rejectThrottledLogin(req, res, email, throttle);
+  }
+  
   const user = authenticateUser(email, password);
   if (!user) {
+    reportLoginFailure(req, email, 'login.failed');
     return res.status(401).json(formatErrorResponse({ message: 'Invalid credentials' }, 401));
   }
   
-  const token = generateAuthToken(user);
-  const response = formatResponse({ user: sanitizeUserData(user), token }, 'Login successful');
+  if (isVerificationRequired() && user.emailVerified === false) {
+    return res.status(403).json(formatErrorResponse({ message: 'Email address has not been verified' }, 403));
+  }
+  
+  if (user.twoFactorEnabled) {
+    const challenge = issueLoginChallenge(user);
+    const response = formatResponse(challenge, 'Two-factor authentication required');
+    return res.json(response);
+  }
+  
+  clearAccountFailures(email);
+  const response = formatResponse(completeLogin(req, user), 'Login successful');
+  res.json(response);
+});
+
+router.post('/login/2fa', (req: Request, res: Response) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+  if (!validateRequiredField(challengeToken) || (!validateRequiredField(code) && !validateRequiredField(recoveryCode))) {
+    return res.status(400).json(formatErrorResponse({ message: 'Challenge token and a code or recovery code required' }, 400));
+  }
+  
+  const userId = consumeAccountToken(challengeToken, 'two-factor-challenge');
+  const user = userId ? getUserById(userId) : undefined;
+  if (!user) {
+    return res.status(401).json(formatErrorResponse({ message: 'Invalid or expired login challenge' }, 401));
+  }
+  
+  const throttle = checkLoginThrottle(user.email, getClientIp(req));
+  if (!throttle.allowed) {
+    return rejectThrottledLogin(req, res, user.email, throttle);
+  }
+  
+  if (!verifySecondFactor(req, user, code, recoveryCode)) {
+    reportLoginFailure(req, user.email, 'two-factor.failed');
+    return res.status(401).json(formatErrorResponse({ message: 'Invalid two-factor code, sign in again' }, 401));
+  }
+  
+  clearAccountFailures(user.email);
+  const response = formatResponse(completeLogin(req, getUserById(user.id)!), 'Login successful');
+  res.json(response);
+});
+
+router.post('/2fa/setup', requireAuth, (req: Request, res: Response) => {
+  const user = getUserById(req.user!.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (user.twoFactorEnabled) {
+    return res.status(409).json(formatErrorResponse({ message: 'Two-factor authentication is already enabled' }, 409));
+  }
+  
+  const enrollment = startTwoFactorEnrollment(user);
+  const response = formatResponse(enrollment, 'Scan the otpauth URI, then confirm with a code');
+  res.json(response);
+});
+
+router.post('/2fa/confirm', requireAuth, (req: Request, res: Response) => {
+  const user = getUserById(req.user!.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (user.twoFactorEnabled) {
+    return res.status(409).json(formatErrorResponse({ message: 'Two-factor authentication is already enabled' }, 409));
+  }
+  
+  if (!user.twoFactorPendingSecret) {
+    return res.status(400).json(formatErrorResponse({ message: 'Start two-factor setup first' }, 400));
+  }
+  
+  const throttle = checkLoginThrottle(user.email, getClientIp(req));
+  if (!throttle.allowed) {
+    return rejectThrottledLogin(req, res, user.email, throttle);
+  }
+  
+  const recoveryCodes = confirmTwoFactorEnrollment(user, req.body.code);
+  if (!recoveryCodes) {
+    reportLoginFailure(req, user.email, 'two-factor.failed');
+    return res.status(400).json(formatErrorResponse({ message: 'Invalid two-factor code' }, 400));
+  }
+  
+  clearAccountFailures(user.email);  
+  logSecurityEvent({ type: 'two-factor.enabled', email: user.email }, req);
+  const response = formatResponse({ recoveryCodes }, 'Two-factor authentication enabled');
+  res.json(response);
+});
+
+router.post('/2fa/recovery-codes', requireAuth, (req: Request, res: Response) => {
+  const user = getUserById(req.user!.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (!user.twoFactorEnabled) {
+    return res.status(400).json(formatErrorResponse({ message: 'Two-factor authentication is not enabled' }, 400));
+  }
+  
+  const throttle = checkLoginThrottle(user.email, getClientIp(req));
+  if (!throttle.allowed) {
+    return rejectThrottledLogin(req, res, user.email, throttle);
+  }
+  
+  if (!verifyTwoFactorCode(user, req.body.code)) {
+    reportLoginFailure(req, user.email, 'two-factor.failed');
+    return res.status(401).json(formatErrorResponse({ message: 'Invalid two-factor code' }, 401));
+  }
+  
+  clearAccountFailures(user.email);
+  const recoveryCodes = regenerateRecoveryCodes(user);
+  const response = formatResponse({ recoveryCodes }, 'Recovery codes regenerated');
+  res.json(response);
+});
+
+router.post('/2fa/disable', requireAuth, (req: Request, res: Response) => {
+  const user = getUserById(req.user!.id);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (!user.twoFactorEnabled) {
+    return res.status(400).json(formatErrorResponse({ message: 'Two-factor authentication is not enabled' }, 400));
+  }
+  
+  if (isTwoFactorRequired(user.role)) {
+    return res.status(400).json(formatErrorResponse({ message: `Two-factor authentication is mandatory for the ${user.role} role` }, 400));
+  }
+  
+  const throttle = checkLoginThrottle(user.email, getClientIp(req));
+  if (!throttle.allowed) {
+    return rejectThrottledLogin(req, res, user.email, throttle);
+  }
+  
+  if (!verifyPassword(user, req.body.password) || !verifyTwoFactorCode(user, req.body.code)) {
+    reportLoginFailure(req, user.email, 'two-factor.failed');
+    return res.status(401).json(formatErrorResponse({ message: 'Password or two-factor code incorrect' }, 401));
+  }
+  
+  clearAccountFailures(user.email);
+  disableTwoFactor(user);
+  logSecurityEvent({ type: 'two-factor.disabled', email: user.email }, req);
+  const response = formatResponse({ twoFactorEnabled: false }, 'Two-factor authentication disabled');
+  res.json(response);
+});
+
+router.post('/token/refresh', (req: Request, res: Response) => {
+  if (!validateRequiredField(req.body.refreshToken)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Refresh token required' }, 400));
+  }
+  
+  const result = rotateRefreshToken(req.body.refreshToken);
+  if (!result.success) {
+    return res.status(401).json(formatErrorResponse({ message: result.message }, 401));
+  }
+  
+  const response = formatResponse(result.data, 'Token refreshed');
+  res.json(response);
+});
+
+router.post('/logout', (req: Request, res: Response) => {
+  const revokedRefreshToken = req.body.refreshToken ? revokeRefreshToken(req.body.refreshToken) : false;
+  const revokedAccessToken = revokeCurrentAccessToken(readBearerToken(req));
+  if (!revokedRefreshToken && !revokedAccessToken) {
+    return res.status(400).json(formatErrorResponse({ message: 'Valid refresh or access token required' }, 400));
+  }
+  
+  const response = formatResponse({ revokedRefreshToken, revokedAccessToken }, 'Logged out');
   res.json(response);
 });
 
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
   const user = getUserById(req.params.id);
   if (!user) {
     return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
   }
   
+  if (!checkIfMatch(req, user)) {
+    return res.status(412).json(formatErrorResponse({ message: 'User has been modified by another request' }, 412));
+  }
+  
+  if (req.body.name !== undefined && !validateRequiredField(req.body.name)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Name is required' }, 400));
+  }
+  
+  if (req.body.email !== undefined && req.body.email !== user.email) {
+    if (!validateEmailFormat(String(req.body.email))) {
+      return res.status(400).json(formatErrorResponse({ message: 'Invalid email format' }, 400));
+    }
+    if (checkEmailExists(req.body.email)) {
+      return res.status(409).json(formatErrorResponse({ message: 'Email already exists' }, 409));
+    }
+  }
+  
   const updated = updateUserData(req.params.id, req.body);
   const sanitized = sanitizeUserData(updated!);
   const response = formatResponse(sanitized, 'User updated');
+  setEntityTag(res, updated!);
   res.json(response);
 });
 
-router.patch('/:id/password', (req: Request, res: Response) => {
+router.patch('/:id/password', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
   const user = getUserById(req.params.id);
   if (!user) {
     return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
   }
   
+  if (!checkIfMatch(req, user)) {
+    return res.status(412).json(formatErrorResponse({ message: 'User has been modified by another request' }, 412));
+  }
+  
   const { currentPassword, newPassword } = req.body;
+  if (!validatePassword(newPassword)) {
+    return res.status(400).json(formatErrorResponse({ message: 'Password must be at least 8 characters' }, 400));
+  }
+  
   if (!verifyPassword(user, currentPassword)) {
     return res.status(401).json(formatErrorResponse({ message: 'Current password incorrect' }, 401));
   }
   
-  updateUserPassword(req.params.id, newPassword);
+  const updated = changeUserPassword(req.params.id, newPassword);
   const response = formatResponse({ success: true }, 'Password updated');
+  setEntityTag(res, updated!);
   res.json(response);
 });
 
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
   const user = getUserById(req.params.id);
   if (!user) {
     return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
   }
   
-  const deleted = removeUser(req.params.id);
-  const response = formatResponse(deleted, 'User deleted');
+  const result = removeUser(req.params.id);
+  if (result.blockingReferences) {
+    return res.status(409).json(formatErrorResponse({ message: 'User is still referenced' }, 409, result.blockingReferences));
+  }
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
+  const response = formatResponse(sanitizeUserData(result.data!), 'User deleted');
+  res.json(response);
+});
+
+router.post('/:id/erasure', requireSelf('id', 'users:write'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id, hasPermission(req, 'users:write'));
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  
+  if (user.erasedAt) {
+    return res.status(409).json(formatErrorResponse({ message: 'User has already been erased' }, 409));
+  }
+  
+  if (user.id === req.user!.id && !verifyPassword(user, req.body.password)) {
+    return res.status(401).json(formatErrorResponse({ message: 'Password incorrect' }, 401));
+  }
+  
+  const openOrders = findOpenOrders(user);
+  if (openOrders.length > 0) {
+    const blocking = openOrders.map(order => ({ orderId: order.id, status: order.status }));
+    return res.status(409).json(formatErrorResponse({ message: 'User has orders that are still being fulfilled' }, 409, blocking));
+  }
+  
+  const result = eraseUser(user);
+  if (!result.success) {
+    return res.status(500).json(formatErrorResponse({ message: result.message }, 500));
+  }
+  
+  logSecurityEvent({ type: 'account.erased', subject: user.id, actor: req.user!.id }, req);
+  const response = formatResponse(result.data, 'User erased');
+  res.json(response);
+});
+
+router.post('/:id/restore', requirePermission('users:write'), (req: Request, res: Response) => {
+  const user = getUserById(req.params.id, true);
+  if (!user) {
+    return res.status(404).json(formatErrorResponse({ message: 'User not found' }, 404));
+  }
+  if (!user.deletedAt) {
+    return res.status(400).json(formatErrorResponse({ message: 'User is not deleted' }, 400));
+  }
+  if (user.erasedAt) {
+    return res.status(400).json(formatErrorResponse({ message: 'Erased users cannot be restored' }, 400));
+  }
+  
+  const restored = restoreUser(req.params.id);
+  const response = formatResponse(sanitizeUserData(restored!), 'User restored');
   res.json(response);
 });
 
-function getAllUsers(): User[] {
-  const result = executeQuery<User[]>('users', 'findAll');
+function getAllUsers(includeDeleted: boolean = false): User[] {
+  const result = executeQuery<User[]>('users', 'findAll', { includeDeleted });
   return result.data || [];
 }
 
-function getUserById(id: string): User | undefined {
-  return findRecordById<User>('users', id);
+function getUserById(id: string, includeDeleted: boolean = false): User | undefined {
+  return findRecordById<User>('users', id, { includeDeleted });
 }
 
-function sanitizeUserList(users: User[]): Omit<User, 'password'>[] {
+function sanitizeUserList(users: User[]): PublicUser[] {
   return users.map(user => sanitizeUserData(user));
 }
 
-function sanitizeUserData(user: User): Omit<User, 'password'> {
-  const { password, ...sanitized } = user;
-  return sanitized;
+function sanitizeUserData(user: User): PublicUser {
+  return toPublicUser(user);
 }
 
 function getUserOrders(userId: string): Order[] {
-  const orders = database.orders || [];
-  return orders.filter(order => order.userId === userId);
-}
-
-function getUserAddresses(user: User) {
-  return user.addresses || [];
+  return query('orders').where('userId', userId).all();
 }
 
 function checkEmailExists(email: string): boolean {
-  const users = getAllUsers();
+  const users = getAllUsers(true);
   return users.some(user => user.email === email);
 }
 
@@ -161,56 +589,141 @@ function buildUserObject(data: Partial<User & { password: string }>): User {
     name: data.name || '',
     password: hashedPassword,
     role: 'customer',
+    emailVerified: false,
+    emailVerifiedAt: null,
     addresses: []
   };
 }
 
-function hashPassword(password: string): string {
-  return Buffer.from(password).toString('base64');
+function findUserByEmail(email: string): User | undefined {
+  return getAllUsers().find(user => user.email === email);
+}
+
+function sendVerificationEmail(user: User): void {
+  const token = issueAccountToken(user.id, 'email-verification');
+  sendMail({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: `Hi ${user.name},\n\nConfirm your email address by opening:\n${buildAppLink('verify-email', token)}\n\nThe link expires in 48 hours.`
+  });
+}
+
+function sendPasswordResetEmail(user: User): void {
+  const token = issueAccountToken(user.id, 'password-reset');
+  sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},\n\nChoose a new password by opening:\n${buildAppLink('reset-password', token)}\n\nThe link expires in one hour. If you did not ask for this, ignore this email.`
+  });
+}
+
+function buildAppLink(pathname: string, token: string): string {
+  const baseUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${baseUrl}/${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+function isVerificationRequired(): boolean {
+  return parseBooleanFlag(process.env.REQUIRE_EMAIL_VERIFICATION);
+}
+
+function markEmailVerified(id: string): User | null {
+  return updateRecord<User>('users', id, { emailVerified: true, emailVerifiedAt: new Date() });
+}
+
+function changeUserPassword(id: string, password: string): User | null {
+  const updated = updateUserPassword(id, password);
+  revokeUserRefreshTokens(id);
+  return updated;
+}
+
+function resetUserPassword(id: string, password: string): void {
+  updateUserPassword(id, password);
+  invalidateAccountTokens(id, 'password-reset');
+  revokeUserRefreshTokens(id);
 }
 
 function authenticateUser(email: string, password: string): User | null {
-  const users = getAllUsers();
-  const user = users.find(u => u.email === email);
+  const user = findUserByEmail(email);
   if (!user) return null;
   
-  const hashedPassword = hashPassword(password);
-  if (user.password !== hashedPassword) return null;
+  if (!verifyPassword(user, password)) return null;
   
-  return user;
+  return upgradePasswordHash(user, password);
 }
 
-function generateAuthToken(user: User): string {
-  const tokenData = buildTokenData(user);
-  return encodeToken(tokenData);
+function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
 }
 
-function buildTokenData(user: User) {
-  return {
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-    exp: Date.now() + 3600000
-  };
+function rejectThrottledLogin(req: Request, res: Response, email: string, throttle: LoginThrottleStatus) {
+  logSecurityEvent({ type: 'login.blocked', email, scope: throttle.scope, retryAfter: throttle.retryAfter }, req);
+  res.setHeader('Retry-After', String(throttle.retryAfter));
+  return res.status(429).json(formatErrorResponse({ message: `Too many failed login attempts, retry in ${throttle.retryAfter} seconds` }, 429));
 }
 
-function encodeToken(data: any): string {
-  return Buffer.from(JSON.stringify(data)).toString('base64');
+function reportLoginFailure(req: Request, email: string, type: SecurityEventType): void {
+  const attempts = recordLoginFailure(email, getClientIp(req));
+  const accountFailures = attempts.find(attempt => attempt.scope === 'account')?.failures;
+  logSecurityEvent({ type, email, failures: accountFailures }, req);
+  attempts
+    .filter(attempt => attempt.locked)
+    .forEach(attempt => logSecurityEvent({ type: 'login.locked', scope: attempt.scope, subject: attempt.subject, failures: attempt.failures }, req));
+}
+
+function completeLogin(req: Request, user: User) {
+  const tokens = issueTokenPair(user);
+  const guestCart = findGuestCart(req.header(CART_TOKEN_HEADER) || req.body.cartToken);
+  const cartMerge = guestCart ? mergeGuestCart(guestCart, user.id) : undefined;
+  return { user: sanitizeUserData(user), ...tokens, ...(cartMerge ? { cartMerge } : {}) };
+}
+
+function issueLoginChallenge(user: User): LoginChallenge {
+  const challengeToken = issueAccountToken(user.id, 'two-factor-challenge');
+  return { twoFactorRequired: true, challengeToken, expiresIn: getAccountTokenLifetime('two-factor-challenge') };
+}
+
+function verifySecondFactor(req: Request, user: User, code: unknown, recoveryCode: unknown): boolean {
+  if (validateRequiredField(code)) {
+    return verifyTwoFactorCode(user, String(code));
+  }
+  if (!consumeRecoveryCode(user, String(recoveryCode))) return false;
+  logSecurityEvent({ type: 'two-factor.recovery-used', email: user.email }, req);
+  return true;
+}
+
+function upgradePasswordHash(user: User, password: string): User {
+  if (!needsRehash(user.password)) return user;
+  return updateUserPassword(user.id, password) || user;
+}
+
+function revokeCurrentAccessToken(token: string | null): boolean {
+  const payload = token ? verifyAccessToken(token) : null;
+  if (!payload) return false;
+  revokeAccessToken(payload);
+  return true;
 }
 
 function updateUserData(id: string, updates: Partial<User>): User | null {
+  const current = getUserById(id);
   const safeUpdates = filterSafeUpdates(updates);
-  return updateRecord<User>('users', id, safeUpdates);
+  const emailChanged = Boolean(current && safeUpdates.email && safeUpdates.email !== current.email);
+  const updated = updateRecord<User>('users', id, emailChanged ? { ...safeUpdates, emailVerified: false, emailVerifiedAt: null } : safeUpdates);
+  if (updated && emailChanged) {
+    sendVerificationEmail(updated);
+  }
+  return updated;
 }
 
 function filterSafeUpdates(updates: Partial<User>): Partial<User> {
-  const { password, role, ...safe } = updates;
+  const safe: Partial<User> = {};
+  PROFILE_FIELDS.forEach(field => {
+    if (updates[field] !== undefined) (safe as Record<string, unknown>)[field] = updates[field];
+  });
   return safe;
 }
 
 function verifyPassword(user: User, password: string): boolean {
-  const hashedPassword = hashPassword(password);
-  return user.password === hashedPassword;
+  return verifyPasswordHash(String(password || ''), user.password);
 }
 
 function updateUserPassword(id: string, newPassword: string): User | null {
@@ -218,8 +731,12 @@ function updateUserPassword(id: string, newPassword: string): User | null {
   return updateRecord<User>('users', id, { password: hashedPassword });
 }
 
-function removeUser(id: string): User | null {
-  return deleteRecord<User>('users', id);
+function removeUser(id: string): DeleteResult<User> {
+  return deleteWithReferences<User>('users', id);
+}
+
+function restoreUser(id: string): User | null {
+  return restoreRecord<User>('users', id);
 }
 
 export default router;
@@ -1,14 +1,57 @@
 export interface Product {
   id: string;
+  sku?: string;
   name: string;
   price: number;
+  salePrice?: number | null;
+  saleStartsAt?: Date | null;
+  saleEndsAt?: Date | null;
   categoryId: string;
   stock: number;
   description?: string;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
   averageRating?: number;
   reviewCount?: number;
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
+  deletedAt?: Date | null;
+}
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>;
+  price?: number | null;
+  stock: number;
+  weight?: number | null;
+}
+
+export interface EffectivePrice {
+  effectivePrice: number;
+  compareAtPrice: number | null;
+  onSale: boolean;
+  saleEndsAt: Date | null;
+}
+
+export interface PriceHistoryEntry {
+  id: string;
+  productId: string;
+  price: number;
+  salePrice: number | null;
+  saleStartsAt: Date | null;
+  saleEndsAt: Date | null;
+  previousPrice: number;
+  previousSalePrice: number | null;
+  changedBy: string;
+  createdAt?: Date;
+  version?: number;
 }
 
 export interface User {
@@ -16,12 +59,25 @@ export interface User {
   email: string;
   name: string;
   password?: string;
-  role: 'customer' | 'admin';
-  addresses?: Address[];
+  role: string;
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date | null;
+  twoFactorEnabled?: boolean;
+  twoFactorEnabledAt?: Date | null;
+  twoFactorSecret?: string | null;
+  twoFactorPendingSecret?: string | null;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastStep?: number | null;
+  erasedAt?: Date | null;
+  addresses?: SavedAddress[];
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
+  deletedAt?: Date | null;
 }
 
+export type PublicUser = Omit<User, 'password' | 'twoFactorSecret' | 'twoFactorPendingSecret' | 'twoFactorRecoveryCodes' | 'twoFactorLastStep'>;
+
 export interface Address {
   street: string;
   city: string;
@@ -30,9 +86,19 @@ export interface Address {
   country?: string;
 }
 
+export interface SavedAddress extends Address {
+  id: string;
+  label?: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+}
+
+export type AddressPurpose = 'shipping' | 'billing';
+
 export interface Order {
   id: string;
-  userId: string;
+  userId: string | null;
+  guestEmail?: string | null;
   items: OrderItem[];
   shippingAddress: Address;
   shippingMethod?: string;
@@ -47,12 +113,16 @@ export interface Order {
   deliveredAt?: Date;
   cancelledAt?: Date;
   updatedAt?: Date;
+  version?: number;
 }
 
 export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
 
 export interface OrderItem {
   productId: string;
+  variantId?: string;
+  sku?: string;
+  options?: Record<string, string>;
   name?: string;
   price: number;
   quantity: number;
@@ -70,20 +140,41 @@ export interface OrderTotals {
 
 export interface Cart {
   id: string;
-  userId: string;
+  userId: string | null;
+  tokenHash?: string | null;
+  expiresAt?: Date | null;
   items: CartItem[];
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
 }
 
 export interface CartItem {
   productId: string;
+  variantId?: string;
+  sku?: string;
+  options?: Record<string, string>;
   name?: string;
   price: number;
   quantity: number;
   addedAt?: Date;
 }
 
+export interface GuestCartSession {
+  cart: Cart;
+  cartToken: string;
+}
+
+export type CartMergeAdjustment =
+  | { productId: string; variantId?: string; reason: 'unavailable' }
+  | { productId: string; variantId?: string; reason: 'insufficient-stock'; requested: number; quantity: number };
+
+export interface CartMergeResult {
+  cart: Cart;
+  mergedItems: number;
+  adjustments: CartMergeAdjustment[];
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -92,11 +183,13 @@ export interface Category {
   slug?: string;
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
+  deletedAt?: Date | null;
 }
 
 export interface Review {
   id: string;
-  userId: string;
+  userId: string | null;
   productId: string;
   rating: number;
   title?: string;
@@ -104,6 +197,8 @@ export interface Review {
   helpfulCount: number;
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
+  deletedAt?: Date | null;
 }
 
 export interface Payment {
@@ -117,6 +212,7 @@ export interface Payment {
   status: PaymentStatus;
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
 }
 
 export type PaymentMethod = 'credit_card' | 'debit_card' | 'paypal' | 'bank_transfer';
@@ -134,6 +230,7 @@ export interface Shipment {
   trackingEvents: TrackingEvent[];
   createdAt?: Date;
   updatedAt?: Date;
+  version?: number;
 }
 
 export type ShipmentStatus = 'created' | 'picked_up' | 'in_transit' | 'out_for_delivery' | 'delivered';
@@ -149,6 +246,7 @@ export interface ApiResponse<T = unknown> {
   success: boolean;
   message: string;
   data: T;
+  errors?: unknown[];
   metadata?: {
     timestamp: string;
     requestId: string;
@@ -163,19 +261,302 @@ export interface PaginatedResponse<T> extends ApiResponse<T> {
     totalPages: number;
     hasNextPage: boolean;
     hasPreviousPage: boolean;
+    nextCursor: string | null;
   };
 }
 
+export interface SortField {
+  field: string;
+  direction: SortDirection;
+}
+
+export interface ListQuery {
+  page: number;
+  limit: number;
+  sort: SortField[];
+  fields?: string[];
+  cursor?: PageCursor;
+}
+
+export interface PageCursor {
+  sort: string;
+  values: unknown[];
+  id: string;
+}
+
+export interface Page<T> {
+  items: Partial<T>[];
+  page: number;
+  limit: number;
+  total: number;
+  nextCursor: string | null;
+}
+
+export type AvailabilityStatus = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export interface ProductSearchFilters {
+  query?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  availability?: AvailabilityStatus;
+}
+
+export interface FacetBucket {
+  value: string;
+  label?: string;
+  min?: number;
+  max?: number | null;
+  count: number;
+}
+
+export interface SearchFacets {
+  category: FacetBucket[];
+  price: FacetBucket[];
+  rating: FacetBucket[];
+  availability: FacetBucket[];
+}
+
+export interface ProductSearchHit {
+  product: Product;
+  score: number;
+}
+
+export interface ProductSearchResult {
+  hits: ProductSearchHit[];
+  facets: SearchFacets;
+  total: number;
+}
+
+export type ProductImportAction = 'create' | 'update' | 'unchanged';
+
+export interface ProductImportRowError {
+  row: number;
+  sku?: string;
+  field?: string;
+  message: string;
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  rows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  errors: ProductImportRowError[];
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
 }
 
+export type Permission =
+  | 'products:write'
+  | 'categories:write'
+  | 'orders:read'
+  | 'orders:write'
+  | 'payments:read'
+  | 'payments:refund'
+  | 'shipping:read'
+  | 'shipping:update'
+  | 'users:read'
+  | 'users:write'
+  | 'reviews:moderate'
+  | 'carts:manage'
+  | 'analytics:read'
+  | 'records:read-deleted'
+  | 'roles:manage'
+  | 'changes:read'
+  | 'snapshots:manage'
+  | 'logins:unlock';
+
+export interface Role {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  builtIn?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: string;
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  role: string;
+  exp: number;
+  iat: number;
+  jti: string;
+}
+
+export interface RefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+}
+
+export interface RevokedToken {
+  id: string;
+  userId: string;
+  expiresAt: Date;
+  createdAt?: Date;
+  version?: number;
+}
+
+export type AccountTokenPurpose = 'email-verification' | 'password-reset' | 'two-factor-challenge';
+
+export interface AccountToken {
+  id: string;
+  userId: string;
+  purpose: AccountTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+}
+
+export type LoginAttemptScope = 'account' | 'ip';
+
+export interface LoginAttempt {
+  id: string;
+  scope: LoginAttemptScope;
+  subject: string;
+  failures: number;
+  lastFailureAt: Date;
+  retryAt: Date | null;
+  locked: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+}
+
+export interface LoginThrottleStatus {
+  allowed: boolean;
+  retryAfter: number;
+  scope?: LoginAttemptScope;
+}
+
+export type SecurityEventType =
+  | 'login.failed'
+  | 'login.blocked'
+  | 'login.locked'
+  | 'login.unlocked'
+  | 'two-factor.failed'
+  | 'two-factor.enabled'
+  | 'two-factor.disabled'
+  | 'two-factor.recovery-used'
+  | 'account.erased';
+
+export interface SecurityEvent {
+  type: SecurityEventType;
+  email?: string;
+  scope?: LoginAttemptScope;
+  subject?: string;
+  failures?: number;
+  retryAfter?: number;
+  actor?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): void;
+}
+
+export type MailTransportName = 'console' | 'file';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface LoginChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
 export interface ValidationError {
   field: string;
   message: string;
 }
 
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+export interface ChangeEvent {
+  id: string;
+  sequence: number;
+  collection: CollectionName;
+  recordId: string;
+  operation: ChangeOperation;
+  before: unknown | null;
+  after: unknown | null;
+  actor: string;
+  redactedAt?: Date;
+  createdAt?: Date;
+}
+
+export interface UserDataExport {
+  format: string;
+  version: number;
+  exportedAt: string;
+  user: PublicUser;
+  orders: Order[];
+  payments: Payment[];
+  shipments: Shipment[];
+  reviews: Review[];
+  carts: Cart[];
+  sessions: Pick<RefreshToken, 'id' | 'createdAt' | 'expiresAt' | 'revokedAt'>[];
+}
+
+export interface ErasureReport {
+  userId: string;
+  erasedAt: Date;
+  anonymized: { orders: number; shipments: number; reviews: number };
+  deleted: { carts: number };
+  preserved: { orders: number; payments: number };
+  redactedChanges: number;
+}
+
 export interface Database {
   products: Product[];
   users: User[];
@@ -185,4 +566,122 @@ export interface Database {
   reviews: Review[];
   payments: Payment[];
   shipments: Shipment[];
+  changes: ChangeEvent[];
+  refreshTokens: RefreshToken[];
+  revokedTokens: RevokedToken[];
+  roles: Role[];
+  accountTokens: AccountToken[];
+  loginAttempts: LoginAttempt[];
+  priceHistory: PriceHistoryEntry[];
+}
+
+export type CollectionName = keyof Database;
+
+export type StorageDriver = 'memory' | 'file' | 'sqlite';
+
+export interface FindOptions {
+  includeDeleted?: boolean;
+}
+
+export interface StorageAdapter {
+  driver: StorageDriver;
+  open(): void;
+  migrate(): string[];
+  findAll<T>(collection: CollectionName): T[];
+  findById<T>(collection: CollectionName, id: string): T | undefined;
+  insert<T extends { id: string }>(collection: CollectionName, record: T): T;
+  update<T>(collection: CollectionName, id: string, updates: Partial<T>): T | null;
+  replace<T extends { id: string }>(collection: CollectionName, record: T): T | null;
+  delete<T>(collection: CollectionName, id: string): T | null;
+  transaction<T>(work: () => T): T;
+  compact(): void;
+}
+
+export interface Transaction {
+  findById<T>(collection: CollectionName, id: string, options?: FindOptions): T | undefined;
+  insert<T extends { id?: string }>(collection: CollectionName, data: T): T;
+  update<T>(collection: CollectionName, id: string, updates: Partial<T>): T;
+  delete<T>(collection: CollectionName, id: string): T;
+}
+
+export interface RecordChange {
+  type: 'put' | 'purge';
+  collection: CollectionName;
+  record: { id: string };
+}
+
+export interface TransactionResult<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+}
+
+export type CollectionRecord<K extends CollectionName> = Database[K][number];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface QueryBuilder<T> {
+  where<F extends keyof T>(field: F, value: T[F]): QueryBuilder<T>;
+  filter(predicate: (record: T) => boolean): QueryBuilder<T>;
+  orderBy(field: keyof T, direction?: SortDirection): QueryBuilder<T>;
+  limit(count: number): QueryBuilder<T>;
+  offset(count: number): QueryBuilder<T>;
+  includeDeleted(include?: boolean): QueryBuilder<T>;
+  all(): T[];
+  first(): T | undefined;
+  count(): number;
+}
+
+export type FixtureCollection = 'categories' | 'users' | 'products' | 'orders' | 'reviews';
+
+export interface FixtureRecord {
+  key: string;
+  [field: string]: unknown;
+}
+
+export type FixtureSet = Partial<Record<FixtureCollection, FixtureRecord[]>>;
+
+export interface FixtureLoadResult {
+  inserted: number;
+  updated: number;
+  byCollection: Partial<Record<FixtureCollection, number>>;
+}
+
+export type OnDeleteAction = 'restrict' | 'cascade' | 'set-null';
+
+export interface ForeignKey {
+  collection: CollectionName;
+  field: string;
+  references: CollectionName;
+  onDelete: OnDeleteAction;
+  within?: string;
+}
+
+export interface ReferenceViolation {
+  collection: CollectionName;
+  recordId: string;
+  field: string;
+  references: CollectionName;
+  referencedId: string;
+}
+
+export interface DeleteResult<T> extends TransactionResult<T> {
+  blockingReferences?: ReferenceViolation[];
+}
+
+export type SnapshotCollection = Exclude<CollectionName, 'changes' | 'refreshTokens' | 'revokedTokens' | 'accountTokens' | 'loginAttempts' | 'priceHistory'>;
+
+export type SnapshotImportMode = 'replace' | 'merge';
+
+export interface Snapshot {
+  format: string;
+  version: number;
+  exportedAt: string;
+  collections: Partial<Record<SnapshotCollection, unknown[]>>;
+}
+
+export interface SnapshotImportResult extends ValidationResult {
+  mode: SnapshotImportMode;
+  imported: Partial<Record<SnapshotCollection, number>>;
+  removed: number;
 }
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { hashSecret, safeEqual } from './hashing';
+import { findRecordById, insertRecord, updateRecord } from './database';
+import { query } from './queryBuilder';
+import { AccountToken, AccountTokenPurpose } from '../types';
+
+const TOKEN_LIFETIMES: Record<AccountTokenPurpose, number> = {
+  'email-verification': 48 * 3600,
+  'password-reset': 3600,
+  'two-factor-challenge': 300
+};
+
+export function issueAccountToken(userId: string, purpose: AccountTokenPurpose): string {
+  invalidateAccountTokens(userId, purpose);
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const token = insertRecord<AccountToken>('accountTokens', {
+    id: crypto.randomUUID(),
+    userId,
+    purpose,
+    tokenHash: hashSecret(secret),
+    expiresAt: new Date(Date.now() + TOKEN_LIFETIMES[purpose] * 1000),
+    usedAt: null
+  });
+  return `${token.id}.${secret}`;
+}
+
+export function getAccountTokenLifetime(purpose: AccountTokenPurpose): number {
+  return TOKEN_LIFETIMES[purpose];
+}
+
+export function consumeAccountToken(presented: string, purpose: AccountTokenPurpose): string | null {
+  const token = findAccountToken(presented);
+  if (!token || token.purpose !== purpose || token.usedAt) return null;
+  if (token.expiresAt.getTime() <= Date.now()) return null;
+  updateRecord<AccountToken>('accountTokens', token.id, { usedAt: new Date() });
+  return token.userId;
+}
+
+export function invalidateAccountTokens(userId: string, purpose: AccountTokenPurpose): void {
+  query('accountTokens')
+    .where('userId', userId)
+    .filter(token => token.purpose === purpose && !token.usedAt)
+    .all()
+    .forEach(token => updateRecord<AccountToken>('accountTokens', token.id, { usedAt: new Date() }));
+}
+
+function findAccountToken(presented: string): AccountToken | undefined {
+  const [id, secret] = String(presented || '').split('.');
+  if (!id || !secret) return undefined;
+  const token = findRecordById<AccountToken>('accountTokens', id);
+  if (!token || !safeEqual(token.tokenHash, hashSecret(secret))) return undefined;
+  return token;
+}
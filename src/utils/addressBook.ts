@@ -0,0 +1,124 @@
+import { findAllRecords, updateDerivedFields, updateRecord } from './database';
+import { generateId } from './helpers';
+import { Address, AddressPurpose, SavedAddress, User } from '../types';
+
+type AddressInput = Partial<Omit<SavedAddress, 'id'>>;
+
+const DEFAULT_FLAGS: Record<AddressPurpose, 'isDefaultShipping' | 'isDefaultBilling'> = {
+  shipping: 'isDefaultShipping',
+  billing: 'isDefaultBilling'
+};
+
+export function normalizeAddresses(addresses: Partial<SavedAddress>[] = []): SavedAddress[] {
+  const normalized = addresses.map(address => ({
+    ...address,
+    id: address.id || generateId(),
+    isDefaultShipping: Boolean(address.isDefaultShipping),
+    isDefaultBilling: Boolean(address.isDefaultBilling)
+  })) as SavedAddress[];
+  return ensureDefaults(normalized);
+}
+
+export function getAddressBook(user: User): SavedAddress[] {
+  return ensureDefaults(user.addresses || []);
+}
+
+export function normalizeStoredAddressBooks(): void {
+  findAllRecords<User>('users', { includeDeleted: true }).forEach(user => {
+    const addresses = user.addresses || [];
+    const normalized = normalizeAddresses(addresses);
+    if (needsNormalizing(addresses, normalized)) {
+      updateDerivedFields<User>('users', user.id, { addresses: normalized });
+    }
+  });
+}
+
+export function findAddress(user: User, addressId: string): SavedAddress | undefined {
+  return getAddressBook(user).find(address => address.id === addressId);
+}
+
+export function getDefaultAddress(user: User, purpose: AddressPurpose): SavedAddress | undefined {
+  return getAddressBook(user).find(address => address[DEFAULT_FLAGS[purpose]]);
+}
+
+export function addAddress(user: User, input: AddressInput): SavedAddress {
+  const address: SavedAddress = {
+    ...(pickAddressFields(input) as Address),
+    id: generateId(),
+    isDefaultShipping: Boolean(input.isDefaultShipping),
+    isDefaultBilling: Boolean(input.isDefaultBilling)
+  };
+  const saved = saveAddressBook(user, [...clearClaimedDefaults(getAddressBook(user), address), address]);
+  return saved.find(entry => entry.id === address.id)!;
+}
+
+export function updateAddress(user: User, addressId: string, input: AddressInput): SavedAddress | undefined {
+  const current = findAddress(user, addressId);
+  if (!current) return undefined;
+  const updated: SavedAddress = {
+    ...current,
+    ...pickAddressFields(input),
+    isDefaultShipping: input.isDefaultShipping ?? current.isDefaultShipping,
+    isDefaultBilling: input.isDefaultBilling ?? current.isDefaultBilling
+  };
+  const others = clearClaimedDefaults(getAddressBook(user), updated);
+  const saved = saveAddressBook(user, others.map(address => (address.id === addressId ? updated : address)));
+  return saved.find(entry => entry.id === addressId);
+}
+
+export function removeAddress(user: User, addressId: string): SavedAddress | undefined {
+  const addresses = getAddressBook(user);
+  const removed = addresses.find(address => address.id === addressId);
+  if (!removed) return undefined;
+  saveAddressBook(user, addresses.filter(address => address.id !== addressId));
+  return removed;
+}
+
+export function toOrderAddress(address: SavedAddress): Address {
+  const { id, label, isDefaultShipping, isDefaultBilling, ...fields } = address;
+  return fields;
+}
+
+function pickAddressFields(input: AddressInput): Partial<Address> & { label?: string } {
+  const fields: Partial<Address> & { label?: string } = {};
+  for (const field of ['street', 'city', 'state', 'zipCode', 'country', 'label'] as const) {
+    if (input[field] !== undefined) fields[field] = String(input[field]).trim();
+  }
+  return fields;
+}
+
+function clearClaimedDefaults(addresses: SavedAddress[], claimant: SavedAddress): SavedAddress[] {
+  return addresses.map(address => ({
+    ...address,
+    isDefaultShipping: claimant.isDefaultShipping ? false : address.isDefaultShipping,
+    isDefaultBilling: claimant.isDefaultBilling ? false : address.isDefaultBilling
+  }));
+}
+
+function ensureDefaults(addresses: SavedAddress[]): SavedAddress[] {
+  if (addresses.length === 0) return addresses;
+  const [first, ...rest] = addresses;
+  return [
+    {
+      ...first,
+      isDefaultShipping: first.isDefaultShipping || !rest.some(address => address.isDefaultShipping),
+      isDefaultBilling: first.isDefaultBilling || !rest.some(address => address.isDefaultBilling)
+    },
+    ...rest
+  ];
+}
+
+function needsNormalizing(original: Partial<SavedAddress>[], normalized: SavedAddress[]): boolean {
+  return original.some((address, index) => {
+    const target = normalized[index];
+    return address.id !== target.id ||
+      address.isDefaultShipping !== target.isDefaultShipping ||
+      address.isDefaultBilling !== target.isDefaultBilling;
+  });
+}
+
+function saveAddressBook(user: User, addresses: SavedAddress[]): SavedAddress[] {
+  const normalized = normalizeAddresses(addresses);
+  updateRecord<User>('users', user.id, { addresses: normalized });
+  return normalized;
+}
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { hashSecret, safeEqual } from './hashing';
+import { findRecordById, insertRecord, updateRecord, purgeRecord } from './database';
+import { query } from './queryBuilder';
+import { generateId } from './helpers';
+import { findVariant, getAvailableStock, getVariantPrice } from './variants';
+import { Cart, CartItem, CartMergeAdjustment, CartMergeResult, GuestCartSession, Product, ProductVariant } from '../types';
+
+export const CART_TOKEN_HEADER = 'X-Cart-Token';
+
+const DEFAULT_GUEST_CART_TTL = 30 * 24 * 3600;
+
+export function getCartByUserId(userId: string): Cart | undefined {
+  return query('carts').where('userId', userId).first();
+}
+
+export function getOrCreateUserCart(userId: string): Cart {
+  return getCartByUserId(userId) || createEmptyCart(userId);
+}
+
+export function createEmptyCart(userId: string): Cart {
+  const cart = buildEmptyCart(userId);
+  return insertRecord<Cart>('carts', cart);
+}
+
+function buildEmptyCart(userId: string | null): Cart {
+  return {
+    id: generateId(),
+    userId: userId,
+    items: [],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+export function createGuestCart(): GuestCartSession {
+  pruneExpiredGuestCarts();
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const cart = insertRecord<Cart>('carts', {
+    ...buildEmptyCart(null),
+    tokenHash: hashSecret(secret),
+    expiresAt: new Date(Date.now() + getGuestCartTtl() * 1000)
+  });
+  return { cart, cartToken: `${cart.id}.${secret}` };
+}
+
+export function findGuestCart(presented: unknown): Cart | undefined {
+  const [id, secret] = String(presented || '').split('.');
+  if (!id || !secret) return undefined;
+  const cart = findRecordById<Cart>('carts', id);
+  if (!cart || cart.userId || !cart.tokenHash) return undefined;
+  if (!safeEqual(cart.tokenHash, hashSecret(secret))) return undefined;
+  if (cart.expiresAt && cart.expiresAt.getTime() <= Date.now()) return undefined;
+  return cart;
+}
+
+export function deleteCart(cart: Cart): void {
+  purgeRecord('carts', cart.id);
+}
+
+export function mergeGuestCart(guestCart: Cart, userId: string): CartMergeResult {
+  const adjustments: CartMergeAdjustment[] = [];
+  let cart = getOrCreateUserCart(userId);
+  for (const item of guestCart.items) {
+    const line = { productId: item.productId, ...(item.variantId ? { variantId: item.variantId } : {}) };
+    const product = findRecordById<Product>('products', item.productId);
+    const variant = product && item.variantId ? findVariant(product, item.variantId) : undefined;
+    if (!product || (item.variantId && !variant)) {
+      adjustments.push({ ...line, reason: 'unavailable' });
+      continue;
+    }
+    const requested = (findCartItem(cart, product.id, item.variantId)?.quantity || 0) + item.quantity;
+    const quantity = checkStockAvailable(product, requested, item.variantId) ? requested : getAvailableStock(product, item.variantId);
+    if (quantity !== requested) {
+      adjustments.push({ ...line, reason: 'insufficient-stock', requested, quantity });
+    }
+    cart = quantity > 0 ? setCartItemQuantity(cart, product, quantity, variant) : removeCartItem(cart, product.id, item.variantId);
+  }
+  deleteCart(guestCart);
+  return { cart, mergedItems: guestCart.items.length, adjustments };
+}
+
+export function checkStockAvailable(product: Product, quantity: number, variantId?: string): boolean {
+  return getAvailableStock(product, variantId) >= quantity;
+}
+
+export function addItemToCart(cart: Cart, product: Product, quantity: number, variant?: ProductVariant): Cart {
+  const existingItem = findCartItem(cart, product.id, variant?.id);
+  if (existingItem) {
+    return updateExistingCartItem(cart, product.id, variant?.id, existingItem.quantity + quantity);
+  }
+
+  return addNewCartItem(cart, product, quantity, variant);
+}
+
+function setCartItemQuantity(cart: Cart, product: Product, quantity: number, variant?: ProductVariant): Cart {
+  if (findCartItem(cart, product.id, variant?.id)) {
+    return updateExistingCartItem(cart, product.id, variant?.id, quantity);
+  }
+  return addNewCartItem(cart, product, quantity, variant);
+}
+
+export function findCartItem(cart: Cart, productId: string, variantId?: string): CartItem | undefined {
+  return cart.items.find(item => isSameCartLine(item, productId, variantId));
+}
+
+function isSameCartLine(item: CartItem, productId: string, variantId?: string): boolean {
+  return item.productId === productId && (item.variantId || null) === (variantId || null);
+}
+
+function updateExistingCartItem(cart: Cart, productId: string, variantId: string | undefined, newQuantity: number): Cart {
+  const items = cart.items.map(item => isSameCartLine(item, productId, variantId) ? { ...item, quantity: newQuantity } : item);
+  return saveCartItems(cart, items);
+}
+
+function addNewCartItem(cart: Cart, product: Product, quantity: number, variant?: ProductVariant): Cart {
+  const newItem = buildCartItem(product, quantity, variant);
+  return saveCartItems(cart, [...cart.items, newItem]);
+}
+
+function saveCartItems(cart: Cart, items: CartItem[]): Cart {
+  const updates: Partial<Cart> = { items };
+  if (!cart.userId && cart.expiresAt) {
+    updates.expiresAt = new Date(Date.now() + getGuestCartTtl() * 1000);
+  }
+  return updateRecord<Cart>('carts', cart.id, updates) || cart;
+}
+
+function buildCartItem(product: Product, quantity: number, variant?: ProductVariant): CartItem {
+  return {
+    productId: product.id,
+    ...(variant ? { variantId: variant.id, sku: variant.sku, options: variant.options } : {}),
+    name: product.name,
+    price: getVariantPrice(product, variant),
+    quantity: quantity,
+    addedAt: new Date()
+  };
+}
+
+export function updateCartItemQuantity(cart: Cart, productId: string, quantity: number, variantId?: string): Cart {
+  if (quantity <= 0) {
+    return removeCartItem(cart, productId, variantId);
+  }
+
+  return updateExistingCartItem(cart, productId, variantId, quantity);
+}
+
+export function removeCartItem(cart: Cart, productId: string, variantId?: string): Cart {
+  return saveCartItems(cart, filterOutItem(cart.items, productId, variantId));
+}
+
+function filterOutItem(items: CartItem[], productId: string, variantId?: string): CartItem[] {
+  return items.filter(item => !isSameCartLine(item, productId, variantId));
+}
+
+export function clearCart(cart: Cart): Cart {
+  return saveCartItems(cart, []);
+}
+
+function pruneExpiredGuestCarts(): void {
+  query('carts')
+    .filter(cart => !cart.userId && Boolean(cart.expiresAt) && cart.expiresAt!.getTime() <= Date.now())
+    .all()
+    .forEach(cart => purgeRecord('carts', cart.id));
+}
+
+function getGuestCartTtl(): number {
+  return parseInt(process.env.GUEST_CART_TTL || '', 10) || DEFAULT_GUEST_CART_TTL;
+}
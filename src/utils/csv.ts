@@ -0,0 +1,77 @@
+export interface CsvParser {
+  push(text: string): void;
+  end(): void;
+}
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function createCsvParser(onRow: (values: string[]) => void): CsvParser {
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let closingQuote = false;
+  let started = false;
+
+  const finishField = () => {
+    row.push(field);
+    field = '';
+  };
+  const finishRow = () => {
+    finishField();
+    if (row.length > 1 || row[0] !== '') onRow(row);
+    row = [];
+  };
+
+  const consume = (char: string) => {
+    if (inQuotes) {
+      if (closingQuote) {
+        closingQuote = false;
+        if (char === '"') {
+          field += '"';
+          return;
+        }
+        inQuotes = false;
+      } else if (char === '"') {
+        closingQuote = true;
+        return;
+      } else {
+        field += char;
+        return;
+      }
+    }
+    if (char === ',') finishField();
+    else if (char === '\n') finishRow();
+    else if (char === '\r') return;
+    else if (char === '"' && field === '') inQuotes = true;
+    else field += char;
+  };
+
+  return {
+    push(text: string) {
+      const input = started ? text : text.replace(/^\uFEFF/, '');
+      started = true;
+      for (const char of input) consume(char);
+    },
+    end() {
+      if (closingQuote) {
+        closingQuote = false;
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        throw new Error('CSV ends inside a quoted field');
+      }
+      if (field !== '' || row.length > 0) finishRow();
+    }
+  };
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvValue).join(',') + '\r\n';
+}
+
+function formatCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,6 +1,9 @@
 import { generateId } from './helpers';
 import { formatResponse } from './responseFormatter';
-import { Product, User, Order, Cart, Category, Review, Payment, Shipment, Database, ApiResponse } from '../types';
+import { createStorageAdapter } from './storage';
+import { rebuildIndexes, indexRecord, unindexRecord } from './indexes';
+import { getCurrentActor } from './requestContext';
+import { Database, ApiResponse, StorageAdapter, CollectionName, FindOptions, Transaction, TransactionResult, ChangeEvent, ChangeOperation, RecordChange } from '../types';
 
 const database: Database = {
   products: [],
@@ -10,51 +13,66 @@ const database: Database = {
   categories: [],
   reviews: [],
   payments: [],
-  shipments: []
+  shipments: [],
+  changes: [],
+  refreshTokens: [],
+  revokedTokens: [],
+  roles: [],
+  accountTokens: [],
+  loginAttempts: [],
+  priceHistory: []
 };
 
+const storage: StorageAdapter = createStorageAdapter(database);
+
+const softDeleteCollections: CollectionName[] = ['products', 'categories', 'users', 'reviews'];
+
+const unloggedCollections: CollectionName[] = ['changes', 'refreshTokens', 'revokedTokens', 'accountTokens', 'loginAttempts'];
+
+const UNLOGGED_USER_FIELD = /^(password$|twoFactor)/;
+
+let lastChangeSequence = 0;
+
+const changeListeners: ((change: ChangeEvent) => void)[] = [];
+
 export function initializeDatabase(): void {
-  seedProducts();
-  seedCategories();
-  seedUsers();
-  console.log('Database initialized with seed data');
+  applyMigrations();
+  storage.open();
+  buildIndexes();
+  lastChangeSequence = findLastChangeSequence();
+  console.log(`Database initialized using ${storage.driver} storage`);
+}
+
+function applyMigrations(): void {
+  const applied = storage.migrate();
+  applied.forEach(migration => console.log(`Applied migration ${migration}`));
 }
 
-function seedProducts(): void {
-  const products = createSampleProducts();
-  database.products = products;
+function buildIndexes(): void {
+  const collections = Object.keys(database) as CollectionName[];
+  collections.forEach(collection => rebuildIndexes(collection, storage.findAll(collection)));
 }
 
-function seedCategories(): void {
-  const categories = createSampleCategories();
-  database.categories = categories;
+function findLastChangeSequence(): number {
+  const changes = storage.findAll<ChangeEvent>('changes');
+  return changes.reduce((max, change) => Math.max(max, change.sequence), 0);
 }
 
-function seedUsers(): void {
-  const users = createSampleUsers();
-  database.users = users;
+export function onRecordChange(listener: (change: ChangeEvent) => void): void {
+  changeListeners.push(listener);
 }
 
-function createSampleProducts(): Product[] {
-  return [
-    { id: generateId(), name: 'Laptop', price: 999.99, categoryId: 'cat-1', stock: 50 },
-    { id: generateId(), name: 'Phone', price: 699.99, categoryId: 'cat-1', stock: 100 },
-    { id: generateId(), name: 'Headphones', price: 199.99, categoryId: 'cat-2', stock: 200 }
-  ];
+export function isDatabaseEmpty(): boolean {
+  const collections = Object.keys(database) as (keyof Database)[];
+  return collections.every(collection => storage.findAll(collection).length === 0);
 }
 
-function createSampleCategories(): Category[] {
-  return [
-    { id: 'cat-1', name: 'Electronics', description: 'Electronic devices' },
-    { id: 'cat-2', name: 'Accessories', description: 'Product accessories' }
-  ];
+export function compactStorage(): void {
+  storage.compact();
 }
 
-function createSampleUsers(): User[] {
-  return [
-    { id: generateId(), email: 'john@example.com', name: 'John Doe', role: 'customer' },
-    { id: generateId(), email: 'admin@example.com', name: 'Admin User', role: 'admin' }
-  ];
+export function getStorageDriver(): string {
+  return storage.driver;
 }
 
 export function executeQuery<T>(collection: keyof Database, operation: string, data?: any): ApiResponse<T> {
@@ -65,9 +83,9 @@ export function executeQuery<T>(collection: keyof Database, operation: string, d
 function performDatabaseOperation<T>(collection: keyof Database, operation: string, data?: any): T | null {
   switch (operation) {
     case 'findAll':
-      return (database[collection] || []) as T;
+      return findAllRecords(collection, data) as T;
     case 'findById':
-      return findRecordById(collection, data.id) as T;
+      return findRecordById(collection, data.id, data) as T;
     case 'insert':
       return insertRecord(collection, data) as T;
     case 'update':
@@ -79,35 +97,252 @@ function performDatabaseOperation<T>(collection: keyof Database, operation: stri
   }
 }
 
-export function findRecordById<T>(collection: keyof Database, id: string): T | undefined {
-  const records = database[collection] as any[];
-  return records.find((record: any) => record.id === id) as T;
+export function findRecordById<T>(collection: keyof Database, id: string, options: FindOptions = {}): T | undefined {
+  const record = storage.findById<T>(collection, id);
+  if (!record || (!options.includeDeleted && isRecordDeleted(record))) return undefined;
+  return record;
+}
+
+export function findAllRecords<T>(collection: keyof Database, options: FindOptions = {}): T[] {
+  const records = storage.findAll<T>(collection);
+  return options.includeDeleted ? records : records.filter(record => !isRecordDeleted(record));
+}
+
+export function isSoftDeleteCollection(collection: CollectionName): boolean {
+  return softDeleteCollections.includes(collection);
+}
+
+export function isRecordDeleted(record: unknown): boolean {
+  return Boolean((record as { deletedAt?: Date | null }).deletedAt);
 }
 
 export function insertRecord<T extends { id?: string }>(collection: keyof Database, data: T): T {
-  const newRecord = { ...data, id: data.id || generateId(), createdAt: new Date() } as T;
-  (database[collection] as any[]).push(newRecord);
-  return newRecord;
+  const newRecord = { ...data, id: data.id || generateId(), createdAt: new Date(), version: 1 };
+  return writeInsert(collection, newRecord) as T;
 }
 
 export function updateRecord<T>(collection: keyof Database, id: string, updates: Partial<T>): T | null {
-  const records = database[collection] as any[];
-  const index = records.findIndex((record: any) => record.id === id);
-  if (index !== -1) {
-    records[index] = { ...records[index], ...updates, updatedAt: new Date() };
-    return records[index] as T;
-  }
-  return null;
+  const current = storage.findById<{ version?: number }>(collection, id);
+  if (!current) return null;
+  const version = getRecordVersion(current) + 1;
+  return writeUpdate<T>(collection, id, { ...updates, updatedAt: new Date(), version });
+}
+
+export function updateDerivedFields<T>(collection: keyof Database, id: string, updates: Partial<T>): T | null {
+  return writeUpdate<T>(collection, id, updates);
+}
+
+export function getRecordVersion(record: { version?: number }): number {
+  return record.version || 1;
 }
 
 export function deleteRecord<T>(collection: keyof Database, id: string): T | null {
-  const records = database[collection] as any[];
-  const index = records.findIndex((record: any) => record.id === id);
-  if (index !== -1) {
-    const deleted = records.splice(index, 1);
-    return deleted[0] as T;
+  if (isSoftDeleteCollection(collection)) {
+    return updateRecord<T>(collection, id, { deletedAt: new Date() } as unknown as Partial<T>);
+  }
+  return writeDelete<T>(collection, id);
+}
+
+export function restoreRecord<T>(collection: keyof Database, id: string): T | null {
+  return updateRecord<T>(collection, id, { deletedAt: null } as unknown as Partial<T>);
+}
+
+export function putRecord<T extends { id: string }>(collection: keyof Database, record: T): T {
+  const existing = storage.findById(collection, record.id);
+  return existing ? writeUpdate<T>(collection, record.id, record)! : writeInsert(collection, record);
+}
+
+export function purgeRecord<T>(collection: keyof Database, id: string): T | null {
+  return writeDelete<T>(collection, id);
+}
+
+function writeInsert<T extends { id: string }>(collection: CollectionName, record: T): T {
+  return storage.transaction(() => {
+    const inserted = storage.insert(collection, record);
+    indexRecord(collection, inserted);
+    recordChange(collection, inserted.id, 'insert', null, inserted);
+    return inserted;
+  });
+}
+
+function writeUpdate<T>(collection: CollectionName, id: string, updates: Partial<T>): T | null {
+  return storage.transaction(() => {
+    const before = storage.findById<{ id: string }>(collection, id);
+    const updated = storage.update<T>(collection, id, updates);
+    if (before && updated) {
+      unindexRecord(collection, before);
+      indexRecord(collection, updated as unknown as { id: string });
+      recordChange(collection, id, 'update', before, updated);
+    }
+    return updated;
+  });
+}
+
+function writeReplace<T extends { id: string }>(collection: CollectionName, record: T): T | null {
+  return storage.transaction(() => {
+    const before = storage.findById<{ id: string }>(collection, record.id);
+    const replaced = storage.replace(collection, record);
+    if (before && replaced) {
+      unindexRecord(collection, before);
+      indexRecord(collection, replaced);
+      recordChange(collection, record.id, 'update', before, replaced);
+    }
+    return replaced;
+  });
+}
+
+function writeDelete<T>(collection: CollectionName, id: string): T | null {
+  return storage.transaction(() => {
+    const deleted = storage.delete<T>(collection, id);
+    if (deleted) {
+      unindexRecord(collection, deleted as unknown as { id: string });
+      recordChange(collection, id, 'delete', deleted, null);
+    }
+    return deleted;
+  });
+}
+
+function recordChange(collection: CollectionName, recordId: string, operation: ChangeOperation, before: unknown, after: unknown): void {
+  if (unloggedCollections.includes(collection)) return;
+  lastChangeSequence += 1;
+  const change: ChangeEvent = {
+    id: generateId(),
+    sequence: lastChangeSequence,
+    collection,
+    recordId,
+    operation,
+    before: redactLoggedRecord(collection, before),
+    after: redactLoggedRecord(collection, after),
+    actor: getCurrentActor(),
+    createdAt: new Date()
+  };
+  storage.insert('changes', change);
+  changeListeners.forEach(listener => listener(change));
+}
+
+function redactLoggedRecord(collection: CollectionName, record: unknown): unknown {
+  if (collection !== 'users' || !record) return record;
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !UNLOGGED_USER_FIELD.test(field)));
+}
+
+interface StagedOperation {
+  type: 'insert' | 'update' | 'delete' | 'put' | 'purge';
+  collection: CollectionName;
+  id: string;
+  record?: any;
+  updates?: any;
+}
+
+interface AppliedOperation {
+  operation: StagedOperation;
+  before?: any;
+}
+
+export function withTransaction<T>(work: (tx: Transaction) => T): TransactionResult<T> {
+  const staged: StagedOperation[] = [];
+  const view = new Map<string, any>();
+  let data: T;
+  try {
+    data = work(createTransaction(staged, view));
+  } catch (error) {
+    return { success: false, message: (error as Error).message };
+  }
+  return commitTransaction(staged, data);
+}
+
+export function applyRecordChanges(changes: RecordChange[]): TransactionResult<number> {
+  const staged = changes.map(change => ({ type: change.type, collection: change.collection, id: change.record.id, record: change.record }));
+  return commitTransaction(staged, staged.length);
+}
+
+function createTransaction(staged: StagedOperation[], view: Map<string, any>): Transaction {
+  const read = (collection: CollectionName, id: string, includeDeleted: boolean = false) => {
+    const key = buildStagingKey(collection, id);
+    return view.has(key) ? view.get(key) : findRecordById(collection, id, { includeDeleted });
+  };
+  return {
+    findById: <T>(collection: CollectionName, id: string, options: FindOptions = {}) => (read(collection, id, options.includeDeleted) || undefined) as T | undefined,
+    insert: <T extends { id?: string }>(collection: CollectionName, data: T) => {
+      const record = { ...data, id: data.id || generateId(), createdAt: new Date(), version: 1 };
+      staged.push({ type: 'insert', collection, id: record.id, record });
+      view.set(buildStagingKey(collection, record.id), record);
+      return record as T;
+    },
+    update: <T>(collection: CollectionName, id: string, updates: Partial<T>) => {
+      const current = read(collection, id, true);
+      if (!current) throw new Error(`Record ${id} not found in ${collection}`);
+      const record = { ...current, ...updates, updatedAt: new Date(), version: getRecordVersion(current) + 1 };
+      staged.push({ type: 'update', collection, id, updates });
+      view.set(buildStagingKey(collection, id), record);
+      return record as T;
+    },
+    delete: <T>(collection: CollectionName, id: string) => {
+      const current = read(collection, id, true);
+      if (!current) throw new Error(`Record ${id} not found in ${collection}`);
+      staged.push({ type: 'delete', collection, id });
+      view.set(buildStagingKey(collection, id), null);
+      return current as T;
+    }
+  };
+}
+
+function buildStagingKey(collection: CollectionName, id: string): string {
+  return `${collection}:${id}`;
+}
+
+function commitTransaction<T>(staged: StagedOperation[], data: T): TransactionResult<T> {
+  return storage.transaction(() => {
+    const applied: AppliedOperation[] = [];
+    try {
+      for (const operation of staged) {
+        const before = storage.findById<any>(operation.collection, operation.id);
+        applyOperation(operation);
+        applied.push({ operation, before });
+      }
+    } catch (error) {
+      rollbackOperations(applied);
+      return { success: false, message: (error as Error).message };
+    }
+    return { success: true, data };
+  });
+}
+
+function applyOperation(operation: StagedOperation): void {
+  const result = performStagedOperation(operation);
+  if (!result) {
+    throw new Error(`Failed to ${operation.type} record ${operation.id} in ${operation.collection}`);
+  }
+}
+
+function performStagedOperation(operation: StagedOperation): unknown {
+  switch (operation.type) {
+    case 'insert':
+      return insertRecord(operation.collection, operation.record);
+    case 'update':
+      return updateRecord(operation.collection, operation.id, operation.updates);
+    case 'delete':
+      return deleteRecord(operation.collection, operation.id);
+    case 'put':
+      return putRecord(operation.collection, operation.record);
+    case 'purge':
+      return purgeRecord(operation.collection, operation.id);
+  }
+}
+
+function rollbackOperations(applied: AppliedOperation[]): void {
+  [...applied].reverse().forEach(rollbackOperation);
+}
+
+function rollbackOperation({ operation, before }: AppliedOperation): void {
+  const { collection, id } = operation;
+  const exists = Boolean(storage.findById(collection, id));
+  if (!before) {
+    writeDelete(collection, id);
+  } else if (exists) {
+    writeReplace(collection, before);
+  } else {
+    writeInsert(collection, before);
   }
-  return null;
 }
 
 export { database };
@@ -0,0 +1,125 @@
+import { FixtureRecord, FixtureSet } from '../types';
+
+const ADJECTIVES = ['Classic', 'Compact', 'Deluxe', 'Eco', 'Ultra', 'Smart', 'Portable', 'Premium', 'Rugged', 'Wireless'];
+const NOUNS = ['Laptop', 'Phone', 'Headphones', 'Speaker', 'Camera', 'Monitor', 'Keyboard', 'Watch', 'Tablet', 'Charger'];
+const DEPARTMENTS = ['Electronics', 'Accessories', 'Audio', 'Computing', 'Wearables', 'Photography', 'Gaming', 'Home Office'];
+const CITIES = ['Springfield', 'Riverside', 'Fairview', 'Madison', 'Georgetown'];
+
+type RandomSource = () => number;
+
+export function generateLoadTestFixtures(count: number): FixtureSet {
+  const random = createRandomSource(count);
+  const categories = generateCategories();
+  const users = generateUsers(Math.max(10, Math.ceil(count / 10)), random);
+  const products = generateProducts(count, categories, random);
+  const orders = generateOrders(Math.ceil(count / 2), users, products, random);
+  const reviews = generateReviews(count, users, products, random);
+  return { categories, users, products, orders, reviews };
+}
+
+function createRandomSource(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomInt(min: number, max: number, random: RandomSource): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function generateCategories(): FixtureRecord[] {
+  return DEPARTMENTS.map((name, index) => ({
+    key: `lt-category-${index + 1}`,
+    name,
+    description: `${name} (load test)`,
+    slug: name.toLowerCase().replace(/\s+/g, '-')
+  }));
+}
+
+function generateUsers(count: number, random: RandomSource): FixtureRecord[] {
+  const users: FixtureRecord[] = [];
+  for (let i = 1; i <= count; i++) {
+    users.push({
+      key: `lt-user-${i}`,
+      email: `loadtest.user${i}@example.com`,
+      name: `Load Test User ${i}`,
+      addresses: [buildAddress(i, random)]
+    });
+  }
+  return users;
+}
+
+function buildAddress(index: number, random: RandomSource) {
+  return {
+    street: `${randomInt(1, 9999, random)} Test Ave`,
+    city: pick(CITIES, random),
+    zipCode: String(10000 + index).slice(-5),
+    country: 'USA'
+  };
+}
+
+function generateProducts(count: number, categories: FixtureRecord[], random: RandomSource): FixtureRecord[] {
+  const products: FixtureRecord[] = [];
+  for (let i = 1; i <= count; i++) {
+    const name = `${pick(ADJECTIVES, random)} ${pick(NOUNS, random)} ${i}`;
+    products.push({
+      key: `lt-product-${i}`,
+      name,
+      description: `Synthetic product ${name}`,
+      price: randomInt(500, 250000, random) / 100,
+      stock: randomInt(0, 500, random),
+      categoryId: `@categories.${pick(categories, random).key}`
+    });
+  }
+  return products;
+}
+
+function generateOrders(count: number, users: FixtureRecord[], products: FixtureRecord[], random: RandomSource): FixtureRecord[] {
+  const orders: FixtureRecord[] = [];
+  for (let i = 1; i <= count; i++) {
+    const user = pick(users, random);
+    orders.push({
+      key: `lt-order-${i}`,
+      userId: `@users.${user.key}`,
+      items: generateOrderItems(products, random),
+      shippingAddress: (user.addresses as unknown[])[0],
+      status: pick(['pending', 'confirmed', 'processing', 'shipped', 'delivered'], random)
+    });
+  }
+  return orders;
+}
+
+function generateOrderItems(products: FixtureRecord[], random: RandomSource) {
+  const itemCount = randomInt(1, 4, random);
+  const items = [];
+  for (let i = 0; i < itemCount; i++) {
+    items.push({ productId: `@products.${pick(products, random).key}`, quantity: randomInt(1, 3, random) });
+  }
+  return items;
+}
+
+function generateReviews(count: number, users: FixtureRecord[], products: FixtureRecord[], random: RandomSource): FixtureRecord[] {
+  const reviews: FixtureRecord[] = [];
+  for (let i = 1; i <= count; i++) {
+    const product = products[(i - 1) % products.length];
+    const user = users[Math.floor((i - 1) / products.length) % users.length];
+    reviews.push({
+      key: `lt-review-${i}`,
+      userId: `@users.${user.key}`,
+      productId: `@products.${product.key}`,
+      rating: randomInt(1, 5, random),
+      title: `Review ${i}`,
+      content: 'Synthetic review generated for load testing'
+    });
+  }
+  return reviews;
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { findRecordById, insertRecord, updateRecord, updateDerivedFields, isDatabaseEmpty } from './database';
+import { query } from './queryBuilder';
+import { calculateTotal } from './helpers';
+import { hashPassword } from './passwords';
+import { normalizeAddresses } from './addressBook';
+import { generateLoadTestFixtures } from './fixtureGenerator';
+import { FixtureCollection, FixtureLoadResult, FixtureRecord, FixtureSet, OrderItem, Product } from '../types';
+
+const FIXTURE_COLLECTIONS: FixtureCollection[] = ['categories', 'users', 'products', 'orders', 'reviews'];
+const FIXTURE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const REFERENCE_PATTERN = /^@(categories|users|products|orders|reviews)\.(.+)$/;
+const LOAD_TEST_SET = 'load-test';
+const DEFAULT_LOAD_TEST_COUNT = 1000;
+
+const ID_PREFIXES: Record<FixtureCollection, string> = {
+  categories: 'cat',
+  users: 'user',
+  products: 'prod',
+  orders: 'order',
+  reviews: 'review'
+};
+
+export function getFixturesDirectory(): string {
+  return process.env.FIXTURES_DIR || path.join(process.cwd(), 'fixtures');
+}
+
+export function seedDatabase(): void {
+  const setName = process.env.SEED_SET || 'demo';
+  if (setName === 'none' || !isDatabaseEmpty()) return;
+  const result = loadFixtureSet(resolveFixtureSet(setName));
+  console.log(`Seeded ${result.inserted} records from fixture set "${setName}"`);
+}
+
+export function resolveFixtureSet(setName: string, count: number = DEFAULT_LOAD_TEST_COUNT, directory: string = getFixturesDirectory()): FixtureSet {
+  if (setName === LOAD_TEST_SET) {
+    return generateLoadTestFixtures(count);
+  }
+  return readFixtureSet(path.join(directory, setName));
+}
+
+export function readFixtureSet(setDirectory: string): FixtureSet {
+  if (!fs.existsSync(setDirectory)) {
+    throw new Error(`Fixture set not found: ${setDirectory}`);
+  }
+  const set: FixtureSet = {};
+  for (const collection of FIXTURE_COLLECTIONS) {
+    const filePath = findFixtureFile(setDirectory, collection);
+    if (filePath) set[collection] = readFixtureFile(filePath);
+  }
+  return set;
+}
+
+function findFixtureFile(setDirectory: string, collection: FixtureCollection): string | undefined {
+  return FIXTURE_EXTENSIONS
+    .map(extension => path.join(setDirectory, `${collection}${extension}`))
+    .find(filePath => fs.existsSync(filePath));
+}
+
+function readFixtureFile(filePath: string): FixtureRecord[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const parsed = filePath.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Fixture file must contain a list of records: ${filePath}`);
+  }
+  parsed.forEach((fixture, index) => validateFixtureKey(fixture, filePath, index));
+  return parsed as FixtureRecord[];
+}
+
+function validateFixtureKey(fixture: any, filePath: string, index: number): void {
+  if (!fixture || typeof fixture.key !== 'string' || !fixture.key) {
+    throw new Error(`Fixture ${index} in ${filePath} is missing a "key"`);
+  }
+}
+
+export function loadFixtureSet(set: FixtureSet): FixtureLoadResult {
+  const ids = assignFixtureIds(set);
+  const result: FixtureLoadResult = { inserted: 0, updated: 0, byCollection: {} };
+  for (const collection of FIXTURE_COLLECTIONS) {
+    const fixtures = set[collection] || [];
+    fixtures.forEach(fixture => upsertFixture(collection, buildFixtureRecord(collection, fixture, ids), result));
+    result.byCollection[collection] = fixtures.length;
+  }
+  refreshProductRatings(set.reviews || [], ids);
+  return result;
+}
+
+function assignFixtureIds(set: FixtureSet): Map<string, string> {
+  const ids = new Map<string, string>();
+  for (const collection of FIXTURE_COLLECTIONS) {
+    for (const fixture of set[collection] || []) {
+      ids.set(buildReferenceKey(collection, fixture.key), String(fixture.id || `${ID_PREFIXES[collection]}-${fixture.key}`));
+    }
+  }
+  return ids;
+}
+
+function buildReferenceKey(collection: string, key: string): string {
+  return `${collection}.${key}`;
+}
+
+function buildFixtureRecord(collection: FixtureCollection, fixture: FixtureRecord, ids: Map<string, string>): any {
+  const { key, ...fields } = fixture;
+  const record = { ...(resolveReferences(fields, ids) as object), id: ids.get(buildReferenceKey(collection, key)) };
+  return applyFixtureDefaults(collection, record);
+}
+
+function resolveReferences(value: unknown, ids: Map<string, string>): unknown {
+  if (typeof value === 'string') return resolveReference(value, ids);
+  if (Array.isArray(value)) return value.map(item => resolveReferences(item, ids));
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([field, fieldValue]) => [field, resolveReferences(fieldValue, ids)]);
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+function resolveReference(value: string, ids: Map<string, string>): string {
+  const match = REFERENCE_PATTERN.exec(value);
+  if (!match) return value;
+  const id = ids.get(buildReferenceKey(match[1], match[2]));
+  if (!id) {
+    throw new Error(`Unknown fixture reference ${value}`);
+  }
+  return id;
+}
+
+function applyFixtureDefaults(collection: FixtureCollection, record: any): any {
+  switch (collection) {
+    case 'users':
+      return buildFixtureUser(record);
+    case 'categories':
+      return { parentId: null, ...record };
+    case 'orders':
+      return buildFixtureOrder(record);
+    case 'reviews':
+      return { helpfulCount: 0, ...record };
+    default:
+      return record;
+  }
+}
+
+function buildFixtureUser(record: any): any {
+  const user = { role: 'customer', emailVerified: true, ...record, addresses: normalizeAddresses(record.addresses) };
+  return record.password ? { ...user, password: hashPassword(record.password) } : user;
+}
+
+function buildFixtureOrder(record: any): any {
+  const items = (record.items || []).map((item: OrderItem) => buildFixtureOrderItem(item));
+  return { status: 'pending', shippingMethod: 'standard', ...record, items, totals: calculateTotal(items) };
+}
+
+function buildFixtureOrderItem(item: OrderItem): OrderItem {
+  const product = findRecordById<Product>('products', item.productId, { includeDeleted: true });
+  return {
+    ...item,
+    name: item.name || (product ? product.name : 'Unknown'),
+    price: item.price || (product ? product.price : 0)
+  };
+}
+
+function upsertFixture(collection: FixtureCollection, record: any, result: FixtureLoadResult): void {
+  const existing = findRecordById(collection, record.id, { includeDeleted: true });
+  if (existing) {
+    updateRecord(collection, record.id, record);
+    result.updated++;
+  } else {
+    insertRecord(collection, record);
+    result.inserted++;
+  }
+}
+
+function refreshProductRatings(reviews: FixtureRecord[], ids: Map<string, string>): void {
+  const productIds = new Set(reviews.map(review => resolveReference(String(review.productId), ids)));
+  productIds.forEach(productId => refreshProductRating(productId));
+}
+
+function refreshProductRating(productId: string): void {
+  const reviews = query('reviews').where('productId', productId).all();
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+  const averageRating = reviews.length ? Math.round((total / reviews.length) * 10) / 10 : 0;
+  updateDerivedFields<Product>('products', productId, { averageRating, reviewCount: reviews.length });
+}
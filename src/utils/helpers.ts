@@ -1,4 +1,4 @@
-import { OrderItem, OrderTotals } from '../types';
+import { AvailabilityStatus, OrderItem, OrderTotals } from '../types';
 
 export function generateId(): string {
   const timestamp = getTimestamp();
@@ -112,3 +112,13 @@ function computeFinalTotal(subtotal: number, tax: number, shipping: number): Ord
     rawTotal: total
   };
 }
+
+export function getAvailabilityStatus(stock: number): AvailabilityStatus {
+  if (stock === 0) return 'out_of_stock';
+  if (stock < 10) return 'low_stock';
+  return 'in_stock';
+}
+
+export function parseBooleanFlag(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
+}
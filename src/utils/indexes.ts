@@ -0,0 +1,66 @@
+import { CollectionName } from '../types';
+
+const indexDefinitions: Partial<Record<CollectionName, string[]>> = {
+  products: ['categoryId'],
+  orders: ['userId'],
+  carts: ['userId'],
+  categories: ['parentId'],
+  reviews: ['productId', 'userId'],
+  payments: ['orderId'],
+  shipments: ['orderId', 'trackingNumber'],
+  refreshTokens: ['familyId', 'userId'],
+  accountTokens: ['userId'],
+  priceHistory: ['productId']
+};
+
+const indexes = new Map<string, Map<unknown, Set<string>>>();
+
+export function rebuildIndexes(collection: CollectionName, records: { id: string }[]): void {
+  for (const field of getIndexedFields(collection)) {
+    indexes.set(buildIndexKey(collection, field), new Map());
+  }
+  records.forEach(record => indexRecord(collection, record));
+}
+
+export function indexRecord(collection: CollectionName, record: { id: string }): void {
+  for (const field of getIndexedFields(collection)) {
+    const value = (record as any)[field];
+    if (value === undefined || value === null) continue;
+    const entries = getIndex(collection, field);
+    if (!entries.has(value)) entries.set(value, new Set());
+    entries.get(value)!.add(record.id);
+  }
+}
+
+export function unindexRecord(collection: CollectionName, record: { id: string }): void {
+  for (const field of getIndexedFields(collection)) {
+    const value = (record as any)[field];
+    const ids = getIndex(collection, field).get(value);
+    if (!ids) continue;
+    ids.delete(record.id);
+    if (ids.size === 0) getIndex(collection, field).delete(value);
+  }
+}
+
+export function isIndexed(collection: CollectionName, field: string): boolean {
+  return getIndexedFields(collection).includes(field);
+}
+
+export function lookupIndex(collection: CollectionName, field: string, value: unknown): string[] {
+  const ids = getIndex(collection, field).get(value);
+  return ids ? Array.from(ids) : [];
+}
+
+function getIndexedFields(collection: CollectionName): string[] {
+  return indexDefinitions[collection] || [];
+}
+
+function getIndex(collection: CollectionName, field: string): Map<unknown, Set<string>> {
+  const key = buildIndexKey(collection, field);
+  if (!indexes.has(key)) indexes.set(key, new Map());
+  return indexes.get(key)!;
+}
+
+function buildIndexKey(collection: CollectionName, field: string): string {
+  return `${collection}.${field}`;
+}
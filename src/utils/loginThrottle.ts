@@ -0,0 +1,111 @@
+import { findRecordById, insertRecord, updateRecord, purgeRecord } from './database';
+import { query } from './queryBuilder';
+import { LoginAttempt, LoginAttemptScope, LoginThrottleStatus } from '../types';
+
+const DEFAULT_MAX_ACCOUNT_FAILURES = 5;
+const DEFAULT_MAX_IP_FAILURES = 20;
+const DEFAULT_LOCKOUT_SECONDS = 900;
+const DEFAULT_BACKOFF_BASE_SECONDS = 1;
+
+export function checkLoginThrottle(email: string, ip: string): LoginThrottleStatus {
+  for (const attempt of [findAttempt('account', email), findAttempt('ip', ip)]) {
+    const retryAfter = attempt ? secondsUntil(attempt.retryAt) : 0;
+    if (retryAfter > 0) {
+      return { allowed: false, retryAfter, scope: attempt!.scope };
+    }
+  }
+  return { allowed: true, retryAfter: 0 };
+}
+
+export function recordLoginFailure(email: string, ip: string): LoginAttempt[] {
+  return [registerFailure('account', email), registerFailure('ip', ip)];
+}
+
+export function clearAccountFailures(email: string): void {
+  const attempt = findAttempt('account', email);
+  if (attempt) purgeRecord('loginAttempts', attempt.id);
+}
+
+export function listLoginLocks(): LoginAttempt[] {
+  return query('loginAttempts')
+    .filter(attempt => attempt.locked && secondsUntil(attempt.retryAt) > 0)
+    .orderBy('lastFailureAt', 'desc')
+    .all();
+}
+
+export function clearLoginAttempt(id: string): LoginAttempt | null {
+  return purgeRecord<LoginAttempt>('loginAttempts', id);
+}
+
+export function buildAttemptId(scope: LoginAttemptScope, subject: string): string {
+  return `${scope}:${normalizeSubject(subject)}`;
+}
+
+function findAttempt(scope: LoginAttemptScope, subject: string): LoginAttempt | undefined {
+  const attempt = findRecordById<LoginAttempt>('loginAttempts', buildAttemptId(scope, subject));
+  if (!attempt || isExpired(attempt)) return undefined;
+  return attempt;
+}
+
+function registerFailure(scope: LoginAttemptScope, subject: string): LoginAttempt {
+  const existing = findRecordById<LoginAttempt>('loginAttempts', buildAttemptId(scope, subject));
+  const failures = existing && !isExpired(existing) ? existing.failures + 1 : 1;
+  const maxFailures = getMaxFailures(scope);
+  const locked = failures >= maxFailures;
+  const delay = locked ? getLockoutSeconds() : calculateBackoff(failures, maxFailures);
+  const updates = {
+    failures,
+    locked,
+    lastFailureAt: new Date(),
+    retryAt: delay > 0 ? new Date(Date.now() + delay * 1000) : null
+  };
+  if (existing) {
+    return updateRecord<LoginAttempt>('loginAttempts', existing.id, updates)!;
+  }
+  return insertRecord<LoginAttempt>('loginAttempts', {
+    id: buildAttemptId(scope, subject),
+    scope,
+    subject: normalizeSubject(subject),
+    ...updates
+  });
+}
+
+function calculateBackoff(failures: number, maxFailures: number): number {
+  const backoffStart = Math.ceil(maxFailures / 2);
+  if (failures < backoffStart) return 0;
+  return Math.min(getBackoffBaseSeconds() * 2 ** (failures - backoffStart), getLockoutSeconds());
+}
+
+function isExpired(attempt: LoginAttempt): boolean {
+  const windowEnd = Math.max(attempt.lastFailureAt.getTime() + getLockoutSeconds() * 1000, attempt.retryAt?.getTime() || 0);
+  return windowEnd <= Date.now();
+}
+
+function secondsUntil(date: Date | null): number {
+  if (!date) return 0;
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+function normalizeSubject(subject: string): string {
+  return String(subject || '').trim().toLowerCase();
+}
+
+function getMaxFailures(scope: LoginAttemptScope): number {
+  if (scope === 'ip') {
+    return readPositiveInteger(process.env.LOGIN_MAX_IP_FAILURES, DEFAULT_MAX_IP_FAILURES);
+  }
+  return readPositiveInteger(process.env.LOGIN_MAX_ACCOUNT_FAILURES, DEFAULT_MAX_ACCOUNT_FAILURES);
+}
+
+function getLockoutSeconds(): number {
+  return readPositiveInteger(process.env.LOGIN_LOCKOUT_SECONDS, DEFAULT_LOCKOUT_SECONDS);
+}
+
+function getBackoffBaseSeconds(): number {
+  return readPositiveInteger(process.env.LOGIN_BACKOFF_BASE_SECONDS, DEFAULT_BACKOFF_BASE_SECONDS);
+}
+
+function readPositiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
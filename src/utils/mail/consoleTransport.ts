@@ -0,0 +1,14 @@
+import { MailMessage, MailTransport } from '../../types';
+
+export function createConsoleTransport(from: string): MailTransport {
+  return {
+    name: 'console',
+    send: (message: MailMessage) => {
+      console.log(formatConsoleMessage(from, message));
+    }
+  };
+}
+
+function formatConsoleMessage(from: string, message: MailMessage): string {
+  return [`--- mail from ${from} to ${message.to} ---`, `Subject: ${message.subject}`, '', message.text, '---'].join('\n');
+}
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import path from 'path';
+import { generateId } from '../helpers';
+import { MailMessage, MailTransport } from '../../types';
+
+export function createFileTransport(from: string, outboxDirectory: string): MailTransport {
+  return {
+    name: 'file',
+    send: (message: MailMessage) => {
+      fs.mkdirSync(outboxDirectory, { recursive: true });
+      const filePath = path.join(outboxDirectory, buildMessageFilename());
+      fs.writeFileSync(filePath, JSON.stringify({ from, ...message, sentAt: new Date().toISOString() }, null, 2));
+    }
+  };
+}
+
+function buildMessageFilename(): string {
+  return `${Date.now()}-${generateId()}.json`;
+}
@@ -0,0 +1,46 @@
+import path from 'path';
+import { createConsoleTransport } from './consoleTransport';
+import { createFileTransport } from './fileTransport';
+import { MailMessage, MailTransport, MailTransportName } from '../../types';
+
+const DEFAULT_OUTBOX_DIRECTORY = path.join(process.cwd(), 'data', 'outbox');
+const DEFAULT_SENDER = 'no-reply@example.com';
+
+let transport: MailTransport | null = null;
+
+export function sendMail(message: MailMessage): void {
+  getMailTransport().send(message);
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createMailTransport();
+  }
+  return transport;
+}
+
+export function setMailTransport(custom: MailTransport): void {
+  transport = custom;
+}
+
+export function createMailTransport(): MailTransport {
+  const name = resolveTransportName(process.env.MAIL_TRANSPORT);
+  const from = process.env.MAIL_FROM || DEFAULT_SENDER;
+  switch (name) {
+    case 'file':
+      return createFileTransport(from, process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIRECTORY);
+    default:
+      return createConsoleTransport(from);
+  }
+}
+
+function resolveTransportName(value?: string): MailTransportName {
+  const names: MailTransportName[] = ['console', 'file'];
+  if (!value) return 'console';
+  if (!names.includes(value as MailTransportName)) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${value}", expected one of: ${names.join(', ')}`);
+  }
+  return value as MailTransportName;
+}
+
+export { createConsoleTransport, createFileTransport };
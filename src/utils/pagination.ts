@@ -0,0 +1,156 @@
+import { Request } from 'express';
+import { ListQuery, Page, PageCursor, SortField } from '../types';
+
+interface ListOptions {
+  sortable: string[];
+  defaultSort: string;
+  sortAliases?: Record<string, string>;
+}
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+
+export function parseListQuery(req: Request, options: ListOptions): { success: boolean; data?: ListQuery; message?: string } {
+  const { page, limit, sort, fields, cursor } = req.query;
+  const parsedPage = parsePositiveInteger(page, 1);
+  if (parsedPage === null) {
+    return { success: false, message: 'page must be a positive integer' };
+  }
+  const parsedLimit = parsePositiveInteger(limit, getDefaultLimit());
+  if (parsedLimit === null) {
+    return { success: false, message: 'limit must be a positive integer' };
+  }
+
+  const requestedSort = parseSort(typeof sort === 'string' && sort ? sort : options.defaultSort);
+  const unknownFields = requestedSort.filter(entry => !options.sortable.includes(entry.field));
+  if (unknownFields.length > 0) {
+    return { success: false, message: `Cannot sort by ${unknownFields.map(entry => entry.field).join(', ')}; use ${options.sortable.join(', ')}` };
+  }
+  const sortFields = requestedSort.map(entry => ({ ...entry, field: options.sortAliases?.[entry.field] || entry.field }));
+
+  const listQuery: ListQuery = {
+    page: parsedPage,
+    limit: Math.min(parsedLimit, MAX_PAGE_LIMIT),
+    sort: sortFields,
+    fields: parseFields(fields)
+  };
+  if (cursor !== undefined && cursor !== '') {
+    const decoded = decodeCursor(String(cursor));
+    if (!decoded || decoded.sort !== serializeSort(sortFields)) {
+      return { success: false, message: 'cursor is invalid or was issued for a different sort' };
+    }
+    listQuery.cursor = decoded;
+  }
+  return { success: true, data: listQuery };
+}
+
+export function paginate<T extends object>(records: T[], listQuery: ListQuery): Page<T> {
+  const sorted = [...records].sort((a, b) => compareRecords(a, b, listQuery.sort));
+  const start = listQuery.cursor
+    ? findCursorOffset(sorted, listQuery.sort, listQuery.cursor)
+    : (listQuery.page - 1) * listQuery.limit;
+  const items = sorted.slice(start, start + listQuery.limit);
+  const hasMore = start + items.length < sorted.length;
+  return {
+    items: items.map(item => selectFields(item, listQuery.fields)),
+    page: Math.floor(start / listQuery.limit) + 1,
+    limit: listQuery.limit,
+    total: sorted.length,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1], listQuery.sort) : null
+  };
+}
+
+export function selectFields<T extends object>(record: T, fields?: string[]): Partial<T> {
+  if (!fields) return record;
+  const selected: Partial<T> = {};
+  for (const field of ['id', ...fields]) {
+    if (field in record) selected[field as keyof T] = record[field as keyof T];
+  }
+  return selected;
+}
+
+function parsePositiveInteger(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function parseSort(sort: string): SortField[] {
+  return sort
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => (entry.startsWith('-')
+      ? { field: entry.slice(1), direction: 'desc' as const }
+      : { field: entry.replace(/^\+/, ''), direction: 'asc' as const }));
+}
+
+function serializeSort(sort: SortField[]): string {
+  return sort.map(entry => (entry.direction === 'desc' ? `-${entry.field}` : entry.field)).join(',');
+}
+
+function parseFields(fields: unknown): string[] | undefined {
+  if (typeof fields !== 'string' || !fields.trim()) return undefined;
+  return fields.split(',').map(field => field.trim()).filter(field => field.length > 0);
+}
+
+function compareRecords(a: object, b: object, sort: SortField[]): number {
+  const left = buildSortKey(a, sort);
+  const right = buildSortKey(b, sort);
+  return compareKeys(left, readId(a), right, readId(b), sort);
+}
+
+function compareKeys(left: unknown[], leftId: string, right: unknown[], rightId: string, sort: SortField[]): number {
+  for (let index = 0; index < sort.length; index++) {
+    const result = compareValues(left[index], right[index]);
+    if (result !== 0) return sort[index].direction === 'desc' ? -result : result;
+  }
+  return leftId < rightId ? -1 : leftId > rightId ? 1 : 0;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function buildSortKey(record: object, sort: SortField[]): unknown[] {
+  return sort.map(entry => toSortValue((record as Record<string, unknown>)[entry.field]));
+}
+
+function toSortValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return Date.parse(value);
+  return value;
+}
+
+function readId(record: object): string {
+  return String((record as { id?: unknown }).id ?? '');
+}
+
+function findCursorOffset(sorted: object[], sort: SortField[], cursor: PageCursor): number {
+  const index = sorted.findIndex(record => compareKeys(buildSortKey(record, sort), readId(record), cursor.values, cursor.id, sort) > 0);
+  return index === -1 ? sorted.length : index;
+}
+
+function encodeCursor(record: object, sort: SortField[]): string {
+  const cursor: PageCursor = { sort: serializeSort(sort), values: buildSortKey(record, sort), id: readId(record) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(encoded: string): PageCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (typeof cursor?.sort !== 'string' || !Array.isArray(cursor.values) || typeof cursor.id !== 'string') return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+function getDefaultLimit(): number {
+  return parseInt(process.env.DEFAULT_PAGE_LIMIT || '', 10) || DEFAULT_PAGE_LIMIT;
+}
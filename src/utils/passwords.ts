@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { safeEqual } from './hashing';
+
+const HASH_SCHEME = 'scrypt';
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+interface ScryptParameters {
+  N: number;
+  r: number;
+  p: number;
+}
+
+const DEFAULT_PARAMETERS: ScryptParameters = { N: 16384, r: 8, p: 1 };
+
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = deriveKey(password, salt, DEFAULT_PARAMETERS);
+  return formatHash(DEFAULT_PARAMETERS, salt, key);
+}
+
+export function verifyPasswordHash(password: string, storedHash: string | undefined): boolean {
+  if (!storedHash) return false;
+  if (isLegacyHash(storedHash)) {
+    return safeEqual(Buffer.from(Buffer.from(password).toString('base64')), Buffer.from(storedHash));
+  }
+  const parsed = parseHash(storedHash);
+  if (!parsed) return false;
+  const key = deriveKey(password, parsed.salt, parsed.parameters);
+  return safeEqual(key, parsed.key);
+}
+
+export function needsRehash(storedHash: string | undefined): boolean {
+  if (!storedHash || isLegacyHash(storedHash)) return true;
+  const parsed = parseHash(storedHash);
+  if (!parsed) return true;
+  const { N, r, p } = parsed.parameters;
+  return N !== DEFAULT_PARAMETERS.N || r !== DEFAULT_PARAMETERS.r || p !== DEFAULT_PARAMETERS.p;
+}
+
+function isLegacyHash(storedHash: string): boolean {
+  return !storedHash.startsWith(`${HASH_SCHEME}$`);
+}
+
+function deriveKey(password: string, salt: Buffer, parameters: ScryptParameters): Buffer {
+  const maxmem = 256 * parameters.N * parameters.r;
+  return crypto.scryptSync(password, salt, KEY_LENGTH, { ...parameters, maxmem });
+}
+
+function formatHash(parameters: ScryptParameters, salt: Buffer, key: Buffer): string {
+  const encodedParameters = `N=${parameters.N},r=${parameters.r},p=${parameters.p}`;
+  return [HASH_SCHEME, encodedParameters, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+function parseHash(storedHash: string): { parameters: ScryptParameters; salt: Buffer; key: Buffer } | null {
+  const [, encodedParameters, salt, key] = storedHash.split('$');
+  const parameters = parseParameters(encodedParameters || '');
+  if (!parameters || !salt || !key) return null;
+  return { parameters, salt: Buffer.from(salt, 'base64'), key: Buffer.from(key, 'base64') };
+}
+
+function parseParameters(encoded: string): ScryptParameters | null {
+  const values: Record<string, number> = {};
+  for (const pair of encoded.split(',')) {
+    const [name, value] = pair.split('=');
+    values[name] = parseInt(value, 10);
+  }
+  const { N, r, p } = values;
+  return [N, r, p].every(value => Number.isInteger(value) && value > 0) ? { N, r, p } : null;
+}
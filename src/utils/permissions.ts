@@ -0,0 +1,71 @@
+import { findAllRecords, findRecordById, insertRecord, updateRecord } from './database';
+import { Permission, Role } from '../types';
+
+export const permissionRegistry: Record<Permission, string> = {
+  'products:write': 'Create, update, delete and restore products',
+  'categories:write': 'Create, update, delete and restore categories',
+  'orders:read': 'View any order, its tracking and invoice',
+  'orders:write': 'Edit, cancel and change the status of any order, or order on behalf of a customer',
+  'payments:read': 'View any payment',
+  'payments:refund': 'Issue refunds',
+  'shipping:read': 'View shipments of any order',
+  'shipping:update': 'Create shipments and update their status',
+  'users:read': 'List and view any user, their orders and addresses',
+  'users:write': 'Edit, delete and restore any user',
+  'reviews:moderate': 'Edit, delete and restore any review',
+  'carts:manage': 'View and edit any cart',
+  'analytics:read': 'Read analytics reports',
+  'records:read-deleted': 'See soft-deleted records with includeDeleted',
+  'roles:manage': 'Manage roles and role assignments',
+  'changes:read': 'Read the change log feed',
+  'snapshots:manage': 'Export and import database snapshots',
+  'logins:unlock': 'View and clear login lockouts'
+};
+
+export const ADMIN_ROLE = 'admin';
+export const DEFAULT_ROLE = 'customer';
+
+const builtInRoles: Role[] = [
+  { id: DEFAULT_ROLE, name: 'Customer', description: 'Shops for and manages their own account', permissions: [] },
+  { id: ADMIN_ROLE, name: 'Administrator', description: 'Full access to every permission', permissions: listPermissions() },
+  {
+    id: 'warehouse',
+    name: 'Warehouse staff',
+    description: 'Fulfils orders and updates shipments',
+    permissions: ['orders:read', 'shipping:read', 'shipping:update']
+  },
+  {
+    id: 'support',
+    name: 'Support agent',
+    description: 'Helps customers with their accounts, carts and orders',
+    permissions: ['orders:read', 'payments:read', 'shipping:read', 'users:read', 'carts:manage', 'reviews:moderate', 'logins:unlock']
+  }
+];
+
+export function listPermissions(): Permission[] {
+  return Object.keys(permissionRegistry) as Permission[];
+}
+
+export function isKnownPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(permissionRegistry, value);
+}
+
+export function ensureBuiltInRoles(): void {
+  for (const role of builtInRoles) {
+    const existing = findRecordById<Role>('roles', role.id);
+    if (!existing) {
+      insertRecord<Role>('roles', { ...role, builtIn: true });
+    } else if (role.id === ADMIN_ROLE && existing.permissions.length !== role.permissions.length) {
+      updateRecord<Role>('roles', role.id, { permissions: role.permissions });
+    }
+  }
+}
+
+export function getRoles(): Role[] {
+  return findAllRecords<Role>('roles');
+}
+
+export function getRolePermissions(roleId: string): Permission[] {
+  const role = findRecordById<Role>('roles', roleId);
+  return role ? role.permissions.filter(isKnownPermission) : [];
+}
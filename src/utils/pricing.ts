@@ -0,0 +1,61 @@
+import { generateId } from './helpers';
+import { getCurrentActor } from './requestContext';
+import { EffectivePrice, PriceHistoryEntry, Product, Transaction } from '../types';
+
+const PRICING_FIELDS = ['price', 'salePrice', 'saleStartsAt', 'saleEndsAt'] as const;
+
+export function getEffectivePrice(product: Product, at: Date = new Date()): EffectivePrice {
+  const onSale = isSaleActive(product, at);
+  return {
+    effectivePrice: onSale ? product.salePrice! : product.price,
+    compareAtPrice: onSale ? product.price : null,
+    onSale,
+    saleEndsAt: onSale ? product.saleEndsAt || null : null
+  };
+}
+
+export function isSaleActive(product: Product, at: Date = new Date()): boolean {
+  if (typeof product.salePrice !== 'number' || product.salePrice >= product.price) return false;
+  if (product.saleStartsAt && new Date(product.saleStartsAt) > at) return false;
+  if (product.saleEndsAt && new Date(product.saleEndsAt) <= at) return false;
+  return true;
+}
+
+export function readSaleFields(data: Partial<Product>): Partial<Product> {
+  const fields: Partial<Product> = {};
+  if (data.salePrice !== undefined) fields.salePrice = isBlank(data.salePrice) ? null : parseFloat(String(data.salePrice));
+  if (data.saleStartsAt !== undefined) fields.saleStartsAt = toDate(data.saleStartsAt);
+  if (data.saleEndsAt !== undefined) fields.saleEndsAt = toDate(data.saleEndsAt);
+  return fields;
+}
+
+export function hasPriceChanged(product: Product, updates: Partial<Product>): boolean {
+  return PRICING_FIELDS.some(field => updates[field] !== undefined && toComparable(updates[field]) !== toComparable(product[field]));
+}
+
+export function recordPriceChange(tx: Transaction, before: Product, after: Product): PriceHistoryEntry {
+  return tx.insert<PriceHistoryEntry>('priceHistory', {
+    id: generateId(),
+    productId: after.id,
+    price: after.price,
+    salePrice: after.salePrice ?? null,
+    saleStartsAt: after.saleStartsAt || null,
+    saleEndsAt: after.saleEndsAt || null,
+    previousPrice: before.price,
+    previousSalePrice: before.salePrice ?? null,
+    changedBy: getCurrentActor()
+  });
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === '';
+}
+
+function toDate(value: unknown): Date | null {
+  return isBlank(value) ? null : new Date(value as string | number | Date);
+}
+
+function toComparable(value: unknown): number | null {
+  if (value === undefined || value === null) return null;
+  return value instanceof Date ? value.getTime() : Number(value);
+}
@@ -0,0 +1,150 @@
+import { compactStorage, updateRecord, withTransaction } from './database';
+import { query } from './queryBuilder';
+import { revokeUserRefreshTokens } from './tokens';
+import { invalidateAccountTokens } from './accountTokens';
+import { clearAccountFailures, buildAttemptId } from './loginThrottle';
+import {
+  Address,
+  Cart,
+  CollectionName,
+  ErasureReport,
+  Order,
+  OrderStatus,
+  Payment,
+  PublicUser,
+  Review,
+  Shipment,
+  TransactionResult,
+  User,
+  UserDataExport
+} from '../types';
+
+const EXPORT_FORMAT = 'ecommerce-ts-user-export';
+const EXPORT_VERSION = 1;
+const ERASED_VALUE = '[erased]';
+const OPEN_ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped'];
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, twoFactorSecret, twoFactorPendingSecret, twoFactorRecoveryCodes, twoFactorLastStep, ...publicUser } = user;
+  return publicUser;
+}
+
+export function buildUserExport(user: User): UserDataExport {
+  const orders = findUserOrders(user);
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: toPublicUser(user),
+    orders,
+    payments: findOrderRecords<Payment>('payments', orders),
+    shipments: findOrderRecords<Shipment>('shipments', orders),
+    reviews: findUserReviews(user),
+    carts: findUserCarts(user),
+    sessions: query('refreshTokens')
+      .where('userId', user.id)
+      .all()
+      .map(({ id, createdAt, expiresAt, revokedAt }) => ({ id, createdAt, expiresAt, revokedAt }))
+  };
+}
+
+export function findOpenOrders(user: User): Order[] {
+  return findUserOrders(user).filter(order => OPEN_ORDER_STATUSES.includes(order.status));
+}
+
+export function eraseUser(user: User): TransactionResult<ErasureReport> {
+  const orders = findUserOrders(user);
+  const shipments = findOrderRecords<Shipment>('shipments', orders);
+  const reviews = findUserReviews(user);
+  const carts = findUserCarts(user);
+  const erasedAt = new Date();
+  const result = withTransaction(tx => {
+    orders.forEach(order => tx.update<Order>('orders', order.id, anonymizeOrder(order)));
+    shipments.forEach(shipment => tx.update<Shipment>('shipments', shipment.id, { destination: anonymizeAddress(shipment.destination) }));
+    reviews.forEach(review => tx.update<Review>('reviews', review.id, { userId: null }));
+    carts.forEach(cart => tx.delete<Cart>('carts', cart.id));
+    tx.update<User>('users', user.id, anonymizeUser(user, erasedAt));
+    return {
+      userId: user.id,
+      erasedAt,
+      anonymized: { orders: orders.length, shipments: shipments.length, reviews: reviews.length },
+      deleted: { carts: carts.length },
+      preserved: { orders: orders.length, payments: findOrderRecords<Payment>('payments', orders).length },
+      redactedChanges: 0
+    };
+  });
+  if (!result.success) return result;
+
+  revokeUserRefreshTokens(user.id);
+  invalidateAccountTokens(user.id, 'email-verification');
+  invalidateAccountTokens(user.id, 'password-reset');
+  invalidateAccountTokens(user.id, 'two-factor-challenge');
+  clearAccountFailures(user.email);
+  const redactedChanges = redactChanges([
+    ['users', [user.id]],
+    ['orders', orders.map(order => order.id)],
+    ['shipments', shipments.map(shipment => shipment.id)],
+    ['reviews', reviews.map(review => review.id)],
+    ['carts', carts.map(cart => cart.id)],
+    ['loginAttempts', [buildAttemptId('account', user.email)]]
+  ]);
+  compactStorage();
+  return { success: true, data: { ...result.data!, redactedChanges } };
+}
+
+function findUserOrders(user: User): Order[] {
+  const registered = query('orders').where('userId', user.id).all();
+  const guest = query('orders').filter(order => !order.userId && order.guestEmail === user.email.toLowerCase()).all();
+  return [...registered, ...guest];
+}
+
+function findOrderRecords<T extends Payment | Shipment>(collection: 'payments' | 'shipments', orders: Order[]): T[] {
+  return orders.flatMap(order => query(collection).where('orderId', order.id).all() as T[]);
+}
+
+function findUserReviews(user: User): Review[] {
+  return query('reviews').where('userId', user.id).includeDeleted().all();
+}
+
+function findUserCarts(user: User): Cart[] {
+  return query('carts').where('userId', user.id).all();
+}
+
+function anonymizeOrder(order: Order): Partial<Order> {
+  const updates: Partial<Order> = { shippingAddress: anonymizeAddress(order.shippingAddress) };
+  if (order.guestEmail) updates.guestEmail = null;
+  return updates;
+}
+
+function anonymizeAddress(address: Address): Address {
+  return { street: ERASED_VALUE, city: ERASED_VALUE, zipCode: ERASED_VALUE, country: address.country };
+}
+
+function anonymizeUser(user: User, erasedAt: Date): Partial<User> {
+  return {
+    email: `erased-${user.id}@erased.invalid`,
+    name: ERASED_VALUE,
+    password: '',
+    emailVerified: false,
+    emailVerifiedAt: null,
+    addresses: [],
+    twoFactorEnabled: false,
+    twoFactorEnabledAt: null,
+    twoFactorSecret: null,
+    twoFactorPendingSecret: null,
+    twoFactorRecoveryCodes: [],
+    twoFactorLastStep: null,
+    erasedAt,
+    deletedAt: user.deletedAt || erasedAt
+  };
+}
+
+function redactChanges(targets: [CollectionName, string[]][]): number {
+  const keys = new Set(targets.flatMap(([collection, ids]) => ids.map(id => `${collection}:${id}`)));
+  const redactedAt = new Date();
+  const changes = query('changes')
+    .filter(change => keys.has(`${change.collection}:${change.recordId}`) && !change.redactedAt)
+    .all();
+  changes.forEach(change => updateRecord('changes', change.id, { before: null, after: null, redactedAt }));
+  return changes.length;
+}
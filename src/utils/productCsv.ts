@@ -0,0 +1,195 @@
+import { Readable } from 'stream';
+import { AsyncResource } from 'async_hooks';
+import { findMissingReferences } from './referentialIntegrity';
+import { createCsvParser, formatCsvRow } from './csv';
+import { withTransaction } from './database';
+import { stageProductCreate, stageProductUpdate } from './products';
+import { hasVariants, indexSkus } from './variants';
+import { validateProduct } from './validators';
+import { Product, ProductImportAction, ProductImportReport, ProductImportRowError } from '../types';
+
+type ProductCsvColumn = typeof PRODUCT_CSV_COLUMNS[number];
+type ProductCsvRow = Partial<Record<ProductCsvColumn, string>>;
+type ImportOperation = { product?: Product; changes: Partial<Product> };
+type RowOutcome = { action: ProductImportAction; operation?: ImportOperation } | { errors: Omit<ProductImportRowError, 'row' | 'sku'>[] };
+
+const PRODUCT_CSV_COLUMNS = ['sku', 'name', 'description', 'price', 'stock', 'categoryId'] as const;
+const EXPORT_COLUMNS = ['id', ...PRODUCT_CSV_COLUMNS] as const;
+const MAX_IMPORT_ROWS = 50000;
+
+export function importProductsCsv(source: Readable, dryRun: boolean): Promise<ProductImportReport> {
+  return new Promise((resolve, reject) => {
+    const importer = createProductImporter(dryRun);
+    const parser = createCsvParser(values => importer.processRow(values));
+    let aborted = false;
+    const fail = (error: Error) => {
+      aborted = true;
+      reject(error);
+    };
+
+    source.setEncoding('utf8');
+    source.on('data', AsyncResource.bind((chunk: string) => {
+      if (aborted) return;
+      try {
+        parser.push(chunk);
+      } catch (error) {
+        fail(error as Error);
+      }
+    }));
+    source.on('end', AsyncResource.bind(() => {
+      if (aborted) return;
+      try {
+        parser.end();
+        resolve(importer.finish());
+      } catch (error) {
+        fail(error as Error);
+      }
+    }));
+    source.on('error', fail);
+  });
+}
+
+export function buildProductsCsv(products: Product[]): string[] {
+  return [
+    formatCsvRow([...EXPORT_COLUMNS]),
+    ...products.map(product => formatCsvRow(EXPORT_COLUMNS.map(column => product[column])))
+  ];
+}
+
+function createProductImporter(dryRun: boolean) {
+  const report: ProductImportReport = { dryRun, rows: 0, created: 0, updated: 0, unchanged: 0, failed: 0, errors: [] };
+  const seenSkus = new Set<string>();
+  const skuOwners = indexSkus();
+  const operations: ImportOperation[] = [];
+  let header: string[] | null = null;
+  let rowNumber = 0;
+
+  return {
+    processRow(values: string[]) {
+      rowNumber += 1;
+      if (!header) {
+        header = readHeader(values);
+        return;
+      }
+      report.rows += 1;
+      if (report.rows > MAX_IMPORT_ROWS) {
+        throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+      }
+      const row = toCsvRow(header, values);
+      const outcome = importRow(row, skuOwners, seenSkus);
+      if ('errors' in outcome) {
+        report.failed += 1;
+        report.errors.push(...outcome.errors.map(error => ({ row: rowNumber, sku: row.sku, ...error })));
+        return;
+      }
+      if (outcome.operation) operations.push(outcome.operation);
+      if (outcome.action === 'create') report.created += 1;
+      if (outcome.action === 'update') report.updated += 1;
+      if (outcome.action === 'unchanged') report.unchanged += 1;
+    },
+    finish(): ProductImportReport {
+      if (!header) {
+        throw new Error('CSV is empty; expected a header row');
+      }
+      if (!dryRun && operations.length > 0) applyOperations(operations);
+      return report;
+    }
+  };
+}
+
+function applyOperations(operations: ImportOperation[]): void {
+  const result = withTransaction(tx => {
+    operations.forEach(({ product, changes }) => {
+      if (product) stageProductUpdate(tx, product, changes);
+      else stageProductCreate(tx, changes);
+    });
+  });
+  if (!result.success) {
+    throw new Error(`Import failed and nothing was saved: ${result.message}`);
+  }
+}
+
+function readHeader(values: string[]): string[] {
+  const header = values.map(value => value.trim());
+  if (!header.includes('sku')) {
+    throw new Error(`CSV header must include a sku column; known columns are ${PRODUCT_CSV_COLUMNS.join(', ')}`);
+  }
+  const duplicates = header.filter((column, index) => column && header.indexOf(column) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`CSV header repeats ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+  return header;
+}
+
+function toCsvRow(header: string[], values: string[]): ProductCsvRow {
+  const row: ProductCsvRow = {};
+  header.forEach((column, index) => {
+    const value = (values[index] || '').trim();
+    if (value && (PRODUCT_CSV_COLUMNS as readonly string[]).includes(column)) {
+      row[column as ProductCsvColumn] = value;
+    }
+  });
+  return row;
+}
+
+function importRow(row: ProductCsvRow, skuOwners: ReturnType<typeof indexSkus>, seenSkus: Set<string>): RowOutcome {
+  if (!row.sku) {
+    return { errors: [{ field: 'sku', message: 'SKU is required' }] };
+  }
+  const skuKey = row.sku.toUpperCase();
+  if (seenSkus.has(skuKey)) {
+    return { errors: [{ field: 'sku', message: 'SKU appears more than once in this file' }] };
+  }
+  seenSkus.add(skuKey);
+
+  const owner = skuOwners.get(skuKey);
+  if (owner?.variant) {
+    return { errors: [{ field: 'sku', message: `SKU belongs to a variant of product ${owner.product.id}` }] };
+  }
+  const existing = owner?.product;
+  if (existing?.deletedAt) {
+    return { errors: [{ field: 'sku', message: `Product ${existing.id} with this SKU is deleted; restore it first` }] };
+  }
+
+  const updates = readProductFields(row);
+  if (existing && hasVariants(existing) && updates.stock !== undefined) {
+    return { errors: [{ field: 'stock', message: 'Stock is tracked per variant for this product' }] };
+  }
+  const candidate = { ...existing, ...updates };
+  const validation = validateProduct(candidate);
+  if (!validation.isValid) {
+    return { errors: validation.errors };
+  }
+  const missingReferences = findMissingReferences('products', candidate);
+  if (missingReferences.length > 0) {
+    return { errors: missingReferences.map(reference => ({ field: reference.field, message: `${reference.references} ${reference.referencedId} does not exist` })) };
+  }
+
+  if (!existing) {
+    return { action: 'create', operation: { changes: candidate } };
+  }
+  const changes = findChangedFields(existing, updates);
+  if (Object.keys(changes).length === 0) {
+    return { action: 'unchanged' };
+  }
+  return { action: 'update', operation: { product: existing, changes } };
+}
+
+function readProductFields(row: ProductCsvRow): Partial<Product> {
+  const fields: Partial<Product> = {};
+  if (row.sku !== undefined) fields.sku = row.sku;
+  if (row.name !== undefined) fields.name = row.name;
+  if (row.description !== undefined) fields.description = row.description;
+  if (row.categoryId !== undefined) fields.categoryId = row.categoryId;
+  if (row.price !== undefined) fields.price = Number(row.price);
+  if (row.stock !== undefined) fields.stock = Number.isInteger(Number(row.stock)) ? Number(row.stock) : NaN;
+  return fields;
+}
+
+function findChangedFields(product: Product, updates: Partial<Product>): Partial<Product> {
+  const changes: Partial<Product> = {};
+  for (const [field, value] of Object.entries(updates) as [keyof Product, unknown][]) {
+    if (product[field] !== value) (changes as Record<string, unknown>)[field] = value;
+  }
+  return changes;
+}
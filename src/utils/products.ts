@@ -0,0 +1,37 @@
+import { insertRecord, withTransaction } from './database';
+import { generateId } from './helpers';
+import { hasPriceChanged, readSaleFields, recordPriceChange } from './pricing';
+import { Product, Transaction, TransactionResult } from '../types';
+
+export function createProduct(productData: Partial<Product>): Product {
+  const newProduct = buildProductObject(productData);
+  return insertRecord<Product>('products', newProduct);
+}
+
+export function updateProduct(product: Product, updates: Partial<Product>): TransactionResult<Product> {
+  return withTransaction(tx => stageProductUpdate(tx, product, updates));
+}
+
+export function stageProductCreate(tx: Transaction, productData: Partial<Product>): Product {
+  return tx.insert<Product>('products', buildProductObject(productData));
+}
+
+export function stageProductUpdate(tx: Transaction, product: Product, updates: Partial<Product>): Product {
+  const updated = tx.update<Product>('products', product.id, updates);
+  if (hasPriceChanged(product, updates)) recordPriceChange(tx, product, updated);
+  return updated;
+}
+
+function buildProductObject(data: Partial<Product>): Product {
+  return {
+    id: generateId(),
+    ...(data.sku ? { sku: String(data.sku).trim() } : {}),
+    name: data.name || '',
+    price: parseFloat(String(data.price)) || 0,
+    ...readSaleFields(data),
+    categoryId: data.categoryId || '',
+    stock: parseInt(String(data.stock)) || 0,
+    description: data.description || '',
+    ...(data.options ? { options: data.options } : {})
+  };
+}
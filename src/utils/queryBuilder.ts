@@ -0,0 +1,106 @@
+import { findAllRecords, findRecordById, isRecordDeleted } from './database';
+import { isIndexed, lookupIndex } from './indexes';
+import { CollectionName, CollectionRecord, QueryBuilder, SortDirection } from '../types';
+
+interface QueryCondition<T> {
+  field: keyof T;
+  value: unknown;
+}
+
+interface QuerySort<T> {
+  field: keyof T;
+  direction: SortDirection;
+}
+
+interface QueryState<T> {
+  collection: CollectionName;
+  conditions: QueryCondition<T>[];
+  predicates: ((record: T) => boolean)[];
+  sorts: QuerySort<T>[];
+  limit?: number;
+  offset: number;
+  includeDeleted: boolean;
+}
+
+export function query<K extends CollectionName>(collection: K): QueryBuilder<CollectionRecord<K>> {
+  return createQueryBuilder<CollectionRecord<K>>({ collection, conditions: [], predicates: [], sorts: [], offset: 0, includeDeleted: false });
+}
+
+function createQueryBuilder<T>(state: QueryState<T>): QueryBuilder<T> {
+  return {
+    where: (field, value) => createQueryBuilder({ ...state, conditions: [...state.conditions, { field, value }] }),
+    filter: predicate => createQueryBuilder({ ...state, predicates: [...state.predicates, predicate] }),
+    orderBy: (field, direction = 'asc') => createQueryBuilder({ ...state, sorts: [...state.sorts, { field, direction }] }),
+    limit: count => createQueryBuilder({ ...state, limit: count }),
+    offset: count => createQueryBuilder({ ...state, offset: count }),
+    includeDeleted: (include = true) => createQueryBuilder({ ...state, includeDeleted: include }),
+    all: () => executeQueryState(state),
+    first: () => executeQueryState({ ...state, limit: 1 })[0],
+    count: () => selectMatchingRecords(state).length
+  };
+}
+
+function executeQueryState<T>(state: QueryState<T>): T[] {
+  const matches = selectMatchingRecords(state);
+  const sorted = sortRecords(matches, state.sorts);
+  return paginateRecords(sorted, state.offset, state.limit);
+}
+
+function selectMatchingRecords<T>(state: QueryState<T>): T[] {
+  const candidates = selectCandidates(state).filter(record => state.includeDeleted || !isRecordDeleted(record));
+  return candidates.filter(record => matchesConditions(record, state.conditions) && matchesPredicates(record, state.predicates));
+}
+
+function selectCandidates<T>(state: QueryState<T>): T[] {
+  const indexed = state.conditions.find(condition => isIndexed(state.collection, String(condition.field)));
+  if (!indexed) {
+    return findAllRecords<T>(state.collection, { includeDeleted: true });
+  }
+  const ids = lookupIndex(state.collection, String(indexed.field), indexed.value);
+  return ids
+    .map(id => findRecordById<T>(state.collection, id, { includeDeleted: true }))
+    .filter((record): record is T => record !== undefined);
+}
+
+function matchesConditions<T>(record: T, conditions: QueryCondition<T>[]): boolean {
+  return conditions.every(condition => record[condition.field] === condition.value);
+}
+
+function matchesPredicates<T>(record: T, predicates: ((record: T) => boolean)[]): boolean {
+  return predicates.every(predicate => predicate(record));
+}
+
+function sortRecords<T>(records: T[], sorts: QuerySort<T>[]): T[] {
+  if (sorts.length === 0) return records;
+  return [...records].sort((a, b) => compareBySorts(a, b, sorts));
+}
+
+function compareBySorts<T>(a: T, b: T, sorts: QuerySort<T>[]): number {
+  for (const sort of sorts) {
+    const result = compareValues(a[sort.field], b[sort.field]);
+    if (result !== 0) return sort.direction === 'desc' ? -result : result;
+  }
+  return 0;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+function toComparable(value: unknown): number | string {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return String(value);
+}
+
+function paginateRecords<T>(records: T[], offset: number, limit?: number): T[] {
+  const end = limit === undefined ? undefined : offset + limit;
+  return records.slice(offset, end);
+}
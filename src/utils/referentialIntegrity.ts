@@ -0,0 +1,112 @@
+import { findRecordById, isSoftDeleteCollection, withTransaction } from './database';
+import { query } from './queryBuilder';
+import { CollectionName, DeleteResult, ForeignKey, QueryBuilder, ReferenceViolation, Transaction } from '../types';
+
+type DependentRecord = { id: string } & Record<string, any>;
+
+export const foreignKeys: ForeignKey[] = [
+  { collection: 'users', field: 'role', references: 'roles', onDelete: 'restrict' },
+  { collection: 'products', field: 'categoryId', references: 'categories', onDelete: 'restrict' },
+  { collection: 'categories', field: 'parentId', references: 'categories', onDelete: 'set-null' },
+  { collection: 'orders', field: 'userId', references: 'users', onDelete: 'restrict' },
+  { collection: 'carts', field: 'userId', references: 'users', onDelete: 'cascade' },
+  { collection: 'carts', field: 'productId', within: 'items', references: 'products', onDelete: 'cascade' },
+  { collection: 'reviews', field: 'userId', references: 'users', onDelete: 'set-null' },
+  { collection: 'reviews', field: 'productId', references: 'products', onDelete: 'cascade' },
+  { collection: 'payments', field: 'orderId', references: 'orders', onDelete: 'restrict' },
+  { collection: 'shipments', field: 'orderId', references: 'orders', onDelete: 'restrict' }
+];
+
+export function getForeignKeysFrom(collection: CollectionName): ForeignKey[] {
+  return foreignKeys.filter(fk => fk.collection === collection);
+}
+
+function getForeignKeysTo(collection: CollectionName): ForeignKey[] {
+  return foreignKeys.filter(fk => fk.references === collection);
+}
+
+export function readReferencedIds(record: Record<string, any>, fk: ForeignKey): string[] {
+  const values = fk.within
+    ? (record[fk.within] || []).map((item: Record<string, any>) => item[fk.field])
+    : [record[fk.field]];
+  return values.filter((value: unknown): value is string => typeof value === 'string' && value !== '');
+}
+
+export function findMissingReferences(collection: CollectionName, record: Record<string, any>): ReferenceViolation[] {
+  const violations: ReferenceViolation[] = [];
+  for (const fk of getForeignKeysFrom(collection)) {
+    readReferencedIds(record, fk)
+      .filter(referencedId => !findRecordById(fk.references, referencedId))
+      .forEach(referencedId => violations.push(buildViolation(fk, record.id, referencedId)));
+  }
+  return violations;
+}
+
+export function findBlockingReferences(collection: CollectionName, id: string): ReferenceViolation[] {
+  return collectBlockingReferences(collection, id, new Set());
+}
+
+function collectBlockingReferences(collection: CollectionName, id: string, visited: Set<string>): ReferenceViolation[] {
+  const key = `${collection}:${id}`;
+  if (visited.has(key)) return [];
+  visited.add(key);
+  const violations: ReferenceViolation[] = [];
+  for (const fk of getForeignKeysTo(collection)) {
+    for (const dependent of findDependents(fk, id)) {
+      if (fk.onDelete === 'restrict') {
+        violations.push(buildViolation(fk, dependent.id, id));
+      } else if (fk.onDelete === 'cascade' && !fk.within && !isSoftDeleteCollection(collection)) {
+        violations.push(...collectBlockingReferences(fk.collection, dependent.id, visited));
+      }
+    }
+  }
+  return violations;
+}
+
+function findDependents(fk: ForeignKey, referencedId: string): DependentRecord[] {
+  const records = query(fk.collection).includeDeleted() as unknown as QueryBuilder<DependentRecord>;
+  if (!fk.within) {
+    return records.where(fk.field, referencedId).all();
+  }
+  return records.filter(record => readReferencedIds(record, fk).includes(referencedId)).all();
+}
+
+function buildViolation(fk: ForeignKey, recordId: string, referencedId: string): ReferenceViolation {
+  const field = fk.within ? `${fk.within}.${fk.field}` : fk.field;
+  return { collection: fk.collection, recordId, field, references: fk.references, referencedId };
+}
+
+export function deleteWithReferences<T>(collection: CollectionName, id: string): DeleteResult<T> {
+  const blockingReferences = findBlockingReferences(collection, id);
+  if (blockingReferences.length > 0) {
+    return { success: false, message: `${collection} record ${id} is still referenced`, blockingReferences };
+  }
+  return withTransaction(tx => deleteCascading<T>(tx, collection, id));
+}
+
+function deleteCascading<T>(tx: Transaction, collection: CollectionName, id: string): T {
+  if (!isSoftDeleteCollection(collection)) {
+    for (const fk of getForeignKeysTo(collection)) {
+      findDependents(fk, id).forEach(dependent => applyDeleteAction(tx, fk, dependent, id));
+    }
+  }
+  return tx.delete<T>(collection, id);
+}
+
+function applyDeleteAction(tx: Transaction, fk: ForeignKey, dependent: DependentRecord, referencedId: string): void {
+  if (fk.within) {
+    tx.update(fk.collection, dependent.id, { [fk.within]: detachItems(dependent[fk.within], fk, referencedId) });
+  } else if (fk.onDelete === 'set-null') {
+    tx.update(fk.collection, dependent.id, { [fk.field]: null });
+  } else {
+    deleteCascading(tx, fk.collection, dependent.id);
+  }
+}
+
+function detachItems(items: Record<string, any>[], fk: ForeignKey, referencedId: string): Record<string, any>[] {
+  const referencing = (item: Record<string, any>) => item[fk.field] === referencedId;
+  if (fk.onDelete === 'set-null') {
+    return items.map(item => (referencing(item) ? { ...item, [fk.field]: null } : item));
+  }
+  return items.filter(item => !referencing(item));
+}
@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface RequestContext {
+  requestId: string;
+  actor: string;
+}
+
+const SYSTEM_ACTOR = 'system';
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, callback: () => T): T {
+  return contextStorage.run(context, callback);
+}
+
+export function getCurrentActor(): string {
+  const context = contextStorage.getStore();
+  return context ? context.actor : SYSTEM_ACTOR;
+}
+
+export function setCurrentActor(actor: string): void {
+  const context = contextStorage.getStore();
+  if (context) context.actor = actor;
+}
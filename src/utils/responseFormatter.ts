@@ -33,9 +33,10 @@ export function generateRequestId(): string {
   return `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function formatErrorResponse(error: Error | { message?: string; code?: string }, statusCode: number = 500): ApiResponse<null> {
+export function formatErrorResponse(error: Error | { message?: string; code?: string }, statusCode: number = 500, errors?: unknown[]): ApiResponse<null> {
   const errorDetails = extractErrorDetails(error);
-  return buildErrorObject(errorDetails, statusCode);
+  const response = buildErrorObject(errorDetails, statusCode);
+  return errors ? { ...response, errors } : response;
 }
 
 interface ErrorDetails {
@@ -64,15 +65,15 @@ function buildErrorObject(errorDetails: ErrorDetails, statusCode: number): ApiRe
   };
 }
 
-export function formatPaginatedResponse<T>(data: T, page: number, limit: number, total: number): PaginatedResponse<T> {
-  const paginationInfo = calculatePagination(page, limit, total);
+export function formatPaginatedResponse<T>(data: T, page: number, limit: number, total: number, message: string = 'Success', nextCursor: string | null = null): PaginatedResponse<T> {
+  const paginationInfo = calculatePagination(page, limit, total, nextCursor);
   return {
-    ...formatResponse(data),
+    ...formatResponse(data, message),
     pagination: paginationInfo
   };
 }
 
-function calculatePagination(page: number, limit: number, total: number) {
+function calculatePagination(page: number, limit: number, total: number, nextCursor: string | null) {
   const totalPages = calculateTotalPages(total, limit);
   const hasNext = checkHasNextPage(page, totalPages);
   const hasPrev = checkHasPreviousPage(page);
@@ -82,7 +83,8 @@ function calculatePagination(page: number, limit: number, total: number) {
     totalItems: total,
     totalPages: totalPages,
     hasNextPage: hasNext,
-    hasPreviousPage: hasPrev
+    hasPreviousPage: hasPrev,
+    nextCursor: nextCursor
   };
 }
 
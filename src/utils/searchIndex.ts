@@ -0,0 +1,266 @@
+import { findRecordById, onRecordChange } from './database';
+import { query } from './queryBuilder';
+import { analyze, editDistance, getAllowedTypos } from './textAnalysis';
+import { getAvailabilityStatus, roundToDecimals } from './helpers';
+import { getEffectivePrice } from './pricing';
+import {
+  AvailabilityStatus,
+  Category,
+  ChangeEvent,
+  FacetBucket,
+  Product,
+  ProductSearchFilters,
+  ProductSearchHit,
+  ProductSearchResult,
+  SearchFacets
+} from '../types';
+
+type FacetName = keyof SearchFacets;
+type ProductPredicate = (product: Product) => boolean;
+
+interface IndexedDocument {
+  length: number;
+  terms: Map<string, number>;
+}
+
+interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+const FIELD_WEIGHTS = { name: 3, category: 2, description: 1 };
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const MIN_PREFIX_LENGTH = 3;
+const PREFIX_MATCH_WEIGHT = 0.6;
+const PRICE_BUCKET_EDGES = [0, 25, 50, 100, 250, 500, 1000];
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+const AVAILABILITY_STATUSES: AvailabilityStatus[] = ['in_stock', 'low_stock', 'out_of_stock'];
+const MAX_CATEGORY_DEPTH = 10;
+
+const documents = new Map<string, IndexedDocument>();
+const postings = new Map<string, Map<string, number>>();
+const staleProducts = new Set<string>();
+let totalLength = 0;
+let indexBuilt = false;
+
+onRecordChange(markStale);
+
+export function searchProducts(filters: ProductSearchFilters): ProductSearchResult {
+  syncIndex();
+  const terms = Array.from(new Set(analyze(filters.query || '')));
+  const scores = terms.length > 0 ? scoreDocuments(terms) : scoreAllDocuments();
+  const candidates = Array.from(scores.keys())
+    .map(id => findRecordById<Product>('products', id))
+    .filter((product): product is Product => Boolean(product));
+  const predicates = buildPredicates(filters);
+  const hits: ProductSearchHit[] = candidates
+    .filter(product => matchesPredicates(product, predicates))
+    .map(product => ({ product, score: roundToDecimals(scores.get(product.id) || 0, 4) }))
+    .sort((a, b) => b.score - a.score);
+  return { hits, facets: buildFacets(candidates, predicates), total: hits.length };
+}
+
+export function rebuildSearchIndex(): void {
+  documents.clear();
+  postings.clear();
+  staleProducts.clear();
+  totalLength = 0;
+  const categories = buildCategoryMap();
+  query('products').all().forEach(product => addDocument(product, categories));
+  indexBuilt = true;
+}
+
+function markStale(change: ChangeEvent): void {
+  if (change.collection === 'categories') indexBuilt = false;
+  if (change.collection === 'products') staleProducts.add(change.recordId);
+}
+
+function syncIndex(): void {
+  if (!indexBuilt) {
+    rebuildSearchIndex();
+    return;
+  }
+  if (staleProducts.size === 0) return;
+  const categories = buildCategoryMap();
+  staleProducts.forEach(id => {
+    removeDocument(id);
+    const product = findRecordById<Product>('products', id);
+    if (product) addDocument(product, categories);
+  });
+  staleProducts.clear();
+}
+
+function addDocument(product: Product, categories: Map<string, Category>): void {
+  const terms = new Map<string, number>();
+  addFieldTerms(terms, product.name, FIELD_WEIGHTS.name);
+  addFieldTerms(terms, collectCategoryNames(product.categoryId, categories).join(' '), FIELD_WEIGHTS.category);
+  addFieldTerms(terms, product.description || '', FIELD_WEIGHTS.description);
+  const length = Array.from(terms.values()).reduce((sum, frequency) => sum + frequency, 0);
+  documents.set(product.id, { length, terms });
+  totalLength += length;
+  terms.forEach((frequency, term) => {
+    if (!postings.has(term)) postings.set(term, new Map());
+    postings.get(term)!.set(product.id, frequency);
+  });
+}
+
+function removeDocument(id: string): void {
+  const document = documents.get(id);
+  if (!document) return;
+  document.terms.forEach((_, term) => {
+    const entries = postings.get(term);
+    entries?.delete(id);
+    if (entries && entries.size === 0) postings.delete(term);
+  });
+  totalLength -= document.length;
+  documents.delete(id);
+}
+
+function addFieldTerms(terms: Map<string, number>, text: string, weight: number): void {
+  analyze(text).forEach(term => terms.set(term, (terms.get(term) || 0) + weight));
+}
+
+function buildCategoryMap(): Map<string, Category> {
+  return new Map(query('categories').all().map(category => [category.id, category]));
+}
+
+function collectCategoryNames(categoryId: string, categories: Map<string, Category>): string[] {
+  const names: string[] = [];
+  let category = categories.get(categoryId);
+  while (category && names.length < MAX_CATEGORY_DEPTH) {
+    names.push(category.name);
+    category = category.parentId ? categories.get(category.parentId) : undefined;
+  }
+  return names;
+}
+
+function scoreDocuments(terms: string[]): Map<string, number> {
+  let combined: Map<string, number> | undefined;
+  for (const term of terms) {
+    const termScores = scoreTerm(term);
+    combined = combined ? intersectScores(combined, termScores) : termScores;
+    if (combined.size === 0) break;
+  }
+  return combined || new Map();
+}
+
+function scoreTerm(term: string): Map<string, number> {
+  const scores = new Map<string, number>();
+  const averageLength = totalLength / Math.max(documents.size, 1) || 1;
+  for (const expansion of expandTerm(term)) {
+    const entries = postings.get(expansion.term)!;
+    const idf = Math.log(1 + (documents.size - entries.size + 0.5) / (entries.size + 0.5));
+    entries.forEach((frequency, id) => {
+      const lengthRatio = documents.get(id)!.length / averageLength;
+      const saturation = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+      const score = expansion.weight * idf * saturation;
+      scores.set(id, Math.max(scores.get(id) || 0, score));
+    });
+  }
+  return scores;
+}
+
+function expandTerm(term: string): TermExpansion[] {
+  const expansions: TermExpansion[] = [];
+  const allowedTypos = getAllowedTypos(term);
+  for (const candidate of postings.keys()) {
+    if (candidate === term) {
+      expansions.push({ term: candidate, weight: 1 });
+    } else if (term.length >= MIN_PREFIX_LENGTH && candidate.startsWith(term)) {
+      expansions.push({ term: candidate, weight: PREFIX_MATCH_WEIGHT });
+    } else if (allowedTypos > 0) {
+      const distance = editDistance(term, candidate, allowedTypos);
+      if (distance <= allowedTypos) expansions.push({ term: candidate, weight: 1 / (1 + distance) });
+    }
+  }
+  return expansions;
+}
+
+function intersectScores(left: Map<string, number>, right: Map<string, number>): Map<string, number> {
+  const scores = new Map<string, number>();
+  left.forEach((score, id) => {
+    if (right.has(id)) scores.set(id, score + right.get(id)!);
+  });
+  return scores;
+}
+
+function scoreAllDocuments(): Map<string, number> {
+  return new Map(Array.from(documents.keys()).map(id => [id, 0]));
+}
+
+function buildPredicates(filters: ProductSearchFilters): Partial<Record<FacetName, ProductPredicate>> {
+  const predicates: Partial<Record<FacetName, ProductPredicate>> = {};
+  if (filters.category) {
+    predicates.category = product => product.categoryId === filters.category;
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    predicates.price = product => {
+      const price = getEffectivePrice(product).effectivePrice;
+      return (filters.minPrice === undefined || price >= filters.minPrice) &&
+        (filters.maxPrice === undefined || price <= filters.maxPrice);
+    };
+  }
+  if (filters.minRating !== undefined) {
+    predicates.rating = product => (product.averageRating || 0) >= filters.minRating!;
+  }
+  if (filters.availability) {
+    predicates.availability = product => getAvailabilityStatus(product.stock) === filters.availability;
+  }
+  return predicates;
+}
+
+function matchesPredicates(product: Product, predicates: Partial<Record<FacetName, ProductPredicate>>, skip?: FacetName): boolean {
+  return (Object.keys(predicates) as FacetName[])
+    .every(name => name === skip || predicates[name]!(product));
+}
+
+function buildFacets(candidates: Product[], predicates: Partial<Record<FacetName, ProductPredicate>>): SearchFacets {
+  const matching = (facet: FacetName) => candidates.filter(product => matchesPredicates(product, predicates, facet));
+  return {
+    category: buildCategoryFacet(matching('category')),
+    price: buildPriceFacet(matching('price')),
+    rating: buildRatingFacet(matching('rating')),
+    availability: buildAvailabilityFacet(matching('availability'))
+  };
+}
+
+function buildCategoryFacet(products: Product[]): FacetBucket[] {
+  const counts = new Map<string, number>();
+  products.forEach(product => counts.set(product.categoryId, (counts.get(product.categoryId) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([categoryId, count]) => ({
+      value: categoryId,
+      label: findRecordById<Category>('categories', categoryId)?.name || categoryId,
+      count
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+function buildPriceFacet(products: Product[]): FacetBucket[] {
+  const prices = products.map(product => getEffectivePrice(product).effectivePrice);
+  return PRICE_BUCKET_EDGES.map((min, index) => {
+    const max = index + 1 < PRICE_BUCKET_EDGES.length ? PRICE_BUCKET_EDGES[index + 1] : null;
+    return {
+      value: max === null ? `${min}+` : `${min}-${max}`,
+      min,
+      max,
+      count: prices.filter(price => price >= min && (max === null || price < max)).length
+    };
+  });
+}
+
+function buildRatingFacet(products: Product[]): FacetBucket[] {
+  return RATING_THRESHOLDS.map(threshold => ({
+    value: `${threshold}+`,
+    min: threshold,
+    count: products.filter(product => (product.averageRating || 0) >= threshold).length
+  }));
+}
+
+function buildAvailabilityFacet(products: Product[]): FacetBucket[] {
+  return AVAILABILITY_STATUSES.map(status => ({
+    value: status,
+    count: products.filter(product => getAvailabilityStatus(product.stock) === status).length
+  }));
+}
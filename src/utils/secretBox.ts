@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { getStorageDriver } from './database';
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+let encryptionKey: Buffer | null = null;
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [CIPHER, iv, cipher.getAuthTag(), ciphertext].map(encodePart).join('$');
+}
+
+export function decryptSecret(stored: string): string | null {
+  if (!isEncryptedSecret(stored)) return stored;
+  const [iv, tag, ciphertext] = stored.split('$').slice(1).map(part => Buffer.from(part, 'base64url'));
+  try {
+    const decipher = crypto.createDecipheriv(CIPHER, getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+export function checkEncryptionKey(): void {
+  getEncryptionKey();
+}
+
+export function isEncryptedSecret(stored: string): boolean {
+  return stored.startsWith(`${CIPHER}$`) && stored.split('$').length === 4;
+}
+
+function encodePart(part: string | Buffer): string {
+  return typeof part === 'string' ? part : part.toString('base64url');
+}
+
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    encryptionKey = crypto.createHash('sha256').update(process.env.SECRET_ENCRYPTION_KEY || generateEphemeralKey()).digest();
+  }
+  return encryptionKey;
+}
+
+function generateEphemeralKey(): string {
+  if (getStorageDriver() !== 'memory') {
+    throw new Error(`SECRET_ENCRYPTION_KEY must be set with the ${getStorageDriver()} storage driver, or stored 2FA secrets cannot be read after a restart`);
+  }
+  console.warn('SECRET_ENCRYPTION_KEY is not set; using a random key, so 2FA secrets will not survive a restart');
+  return crypto.randomBytes(32).toString('hex');
+}
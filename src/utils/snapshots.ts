@@ -0,0 +1,206 @@
+import zlib from 'zlib';
+import { applyRecordChanges, findAllRecords } from './database';
+import { foreignKeys, readReferencedIds } from './referentialIntegrity';
+import { parseRecord, serializeRecord } from './storage/serialization';
+import { RecordChange, Snapshot, SnapshotCollection, SnapshotImportMode, SnapshotImportResult, ValidationError } from '../types';
+
+const SNAPSHOT_FORMAT = 'ecommerce-ts-snapshot';
+const SNAPSHOT_VERSION = 1;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+type FieldType = 'string' | 'nullable-string' | 'number' | 'array' | 'object';
+
+const SNAPSHOT_COLLECTIONS: SnapshotCollection[] = ['roles', 'categories', 'users', 'products', 'orders', 'carts', 'reviews', 'payments', 'shipments'];
+
+const collectionSchemas: Record<SnapshotCollection, Record<string, FieldType>> = {
+  roles: { id: 'string', name: 'string', permissions: 'array' },
+  categories: { id: 'string', name: 'string' },
+  users: { id: 'string', email: 'string', name: 'string', role: 'string' },
+  products: { id: 'string', name: 'string', price: 'number', stock: 'number', categoryId: 'string' },
+  orders: { id: 'string', userId: 'nullable-string', items: 'array', shippingAddress: 'object', status: 'string' },
+  carts: { id: 'string', userId: 'nullable-string', items: 'array' },
+  reviews: { id: 'string', userId: 'nullable-string', productId: 'string', rating: 'number' },
+  payments: { id: 'string', orderId: 'string', method: 'string', amount: 'number', status: 'string' },
+  shipments: { id: 'string', orderId: 'string', trackingNumber: 'string', status: 'string', trackingEvents: 'array' }
+};
+
+const uniqueFields: Partial<Record<SnapshotCollection, string[]>> = {
+  users: ['email'],
+  shipments: ['trackingNumber']
+};
+
+export function buildSnapshot(): Snapshot {
+  const collections: Snapshot['collections'] = {};
+  for (const collection of SNAPSHOT_COLLECTIONS) {
+    collections[collection] = findAllRecords(collection, { includeDeleted: true });
+  }
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, exportedAt: new Date().toISOString(), collections };
+}
+
+export function exportSnapshot(): Buffer {
+  return zlib.gzipSync(serializeRecord(buildSnapshot()));
+}
+
+export function parseSnapshot(payload: Buffer): Snapshot {
+  const content = isGzipped(payload) ? zlib.gunzipSync(payload) : payload;
+  return parseRecord<Snapshot>(content.toString('utf8'));
+}
+
+function isGzipped(payload: Buffer): boolean {
+  return payload.length > 2 && payload[0] === GZIP_MAGIC[0] && payload[1] === GZIP_MAGIC[1];
+}
+
+export function importSnapshot(snapshot: Snapshot, mode: SnapshotImportMode): SnapshotImportResult {
+  const errors = validateSnapshot(snapshot, mode);
+  const result: SnapshotImportResult = { isValid: errors.length === 0, errors, mode, imported: {}, removed: 0 };
+  if (!result.isValid) return result;
+  const changes = mode === 'replace' ? findRecordsMissingFrom(snapshot) : [];
+  result.removed = changes.length;
+  for (const collection of SNAPSHOT_COLLECTIONS.filter(collection => hasCollection(snapshot, collection))) {
+    const records = getSnapshotRecords(snapshot, collection);
+    changes.push(...records.map(record => ({ type: 'put' as const, collection, record })));
+    result.imported[collection] = records.length;
+  }
+  const applied = applyRecordChanges(changes);
+  if (!applied.success) {
+    return { ...result, isValid: false, errors: [{ field: 'collections', message: `Import failed and nothing was changed: ${applied.message}` }], imported: {}, removed: 0 };
+  }
+  return result;
+}
+
+function hasCollection(snapshot: Snapshot, collection: SnapshotCollection): boolean {
+  return snapshot.collections[collection] !== undefined;
+}
+
+function getSnapshotRecords(snapshot: Snapshot, collection: SnapshotCollection): { id: string }[] {
+  return (snapshot.collections[collection] || []) as { id: string }[];
+}
+
+function validateSnapshot(snapshot: Snapshot, mode: SnapshotImportMode): ValidationError[] {
+  const errors = validateSnapshotHeader(snapshot);
+  if (errors.length > 0) return errors;
+  for (const collection of SNAPSHOT_COLLECTIONS) {
+    errors.push(...validateCollection(snapshot, collection));
+  }
+  if (errors.length > 0) return errors;
+  return [...validateUniqueFields(snapshot, mode), ...validateReferences(snapshot, mode)];
+}
+
+function validateSnapshotHeader(snapshot: Snapshot): ValidationError[] {
+  if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT) {
+    return [{ field: 'format', message: `Expected snapshot format "${SNAPSHOT_FORMAT}"` }];
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    return [{ field: 'version', message: `Unsupported snapshot version ${snapshot.version}` }];
+  }
+  if (!snapshot.collections || typeof snapshot.collections !== 'object') {
+    return [{ field: 'collections', message: 'Snapshot collections are missing' }];
+  }
+  return [];
+}
+
+function validateCollection(snapshot: Snapshot, collection: SnapshotCollection): ValidationError[] {
+  const records = snapshot.collections[collection];
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) {
+    return [{ field: collection, message: 'Collection must be an array' }];
+  }
+  const errors: ValidationError[] = [];
+  const seenIds = new Set<string>();
+  records.forEach((record, index) => {
+    errors.push(...validateRecordSchema(collection, record, index));
+    const id = (record as { id?: string }).id;
+    if (id && seenIds.has(id)) {
+      errors.push({ field: `${collection}[${index}].id`, message: `Duplicate id ${id}` });
+    }
+    if (id) seenIds.add(id);
+  });
+  return errors;
+}
+
+function validateRecordSchema(collection: SnapshotCollection, record: unknown, index: number): ValidationError[] {
+  if (!record || typeof record !== 'object') {
+    return [{ field: `${collection}[${index}]`, message: 'Record must be an object' }];
+  }
+  const schema = collectionSchemas[collection];
+  return Object.entries(schema)
+    .filter(([field, type]) => !matchesFieldType((record as any)[field], type))
+    .map(([field, type]) => ({ field: `${collection}[${index}].${field}`, message: `Expected ${type}` }));
+}
+
+function matchesFieldType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'nullable-string':
+      return value === null || (typeof value === 'string' && value !== '');
+    default:
+      return typeof value === 'string' && value !== '';
+  }
+}
+
+function validateUniqueFields(snapshot: Snapshot, mode: SnapshotImportMode): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const [collection, fields] of Object.entries(uniqueFields) as [SnapshotCollection, string[]][]) {
+    if (!hasCollection(snapshot, collection)) continue;
+    const records = findResultingRecords(snapshot, collection, mode) as Record<string, any>[];
+    fields.forEach(field => {
+      const owners = new Map<unknown, string>();
+      records.filter(record => record[field] !== undefined && record[field] !== null).forEach(record => {
+        const owner = owners.get(record[field]);
+        if (owner) {
+          errors.push({ field: `${collection}.${field}`, message: `Records ${owner} and ${record.id} share ${field} ${record[field]}` });
+        }
+        owners.set(record[field], record.id);
+      });
+    });
+  }
+  return errors;
+}
+
+function validateReferences(snapshot: Snapshot, mode: SnapshotImportMode): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const fk of foreignKeys) {
+    const knownIds = new Set(findResultingRecords(snapshot, fk.references as SnapshotCollection, mode).map(record => record.id));
+    findRecordsToCheck(snapshot, fk.collection as SnapshotCollection, mode).forEach(({ label, record }) => {
+      readReferencedIds(record, fk)
+        .filter(value => !knownIds.has(value))
+        .forEach(value => errors.push({
+          field: `${label}.${fk.within ? `${fk.within}.` : ''}${fk.field}`,
+          message: `References missing ${fk.references} record ${value}`
+        }));
+    });
+  }
+  return errors;
+}
+
+function findRecordsToCheck(snapshot: Snapshot, collection: SnapshotCollection, mode: SnapshotImportMode): { label: string; record: { id: string } }[] {
+  if (hasCollection(snapshot, collection)) {
+    return getSnapshotRecords(snapshot, collection).map((record, index) => ({ label: `${collection}[${index}]`, record }));
+  }
+  if (mode === 'merge') return [];
+  return findAllRecords<{ id: string }>(collection, { includeDeleted: true }).map(record => ({ label: `${collection}(${record.id})`, record }));
+}
+
+function findResultingRecords(snapshot: Snapshot, collection: SnapshotCollection, mode: SnapshotImportMode): { id: string }[] {
+  const incoming = getSnapshotRecords(snapshot, collection);
+  if (mode === 'replace' && hasCollection(snapshot, collection)) return incoming;
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const kept = findAllRecords<{ id: string }>(collection, { includeDeleted: true }).filter(record => !incomingIds.has(record.id));
+  return [...kept, ...incoming];
+}
+
+function findRecordsMissingFrom(snapshot: Snapshot): RecordChange[] {
+  const changes: RecordChange[] = [];
+  for (const collection of SNAPSHOT_COLLECTIONS.filter(collection => hasCollection(snapshot, collection))) {
+    const keep = new Set(getSnapshotRecords(snapshot, collection).map(record => record.id));
+    findAllRecords<{ id: string }>(collection, { includeDeleted: true })
+      .filter(record => !keep.has(record.id))
+      .forEach(record => changes.push({ type: 'purge', collection, record }));
+  }
+  return changes;
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { createMemoryStorage } from './memoryStorage';
+import { serializeRecord, parseRecord } from './serialization';
+import { CollectionName, Database, StorageAdapter } from '../../types';
+
+type JournalOperation = 'insert' | 'update' | 'delete';
+
+interface JournalEntry {
+  op: JournalOperation;
+  collection: CollectionName;
+  id: string;
+  record?: unknown;
+}
+
+interface JournalBatch {
+  op: 'batch';
+  entries: JournalEntry[];
+}
+
+type JournalLine = JournalEntry | JournalBatch;
+
+export function createFileStorage(database: Database, filePath: string): StorageAdapter {
+  const memory = createMemoryStorage(database);
+  const journal = createJournalWriter(filePath);
+  return {
+    driver: 'file',
+    open: () => openJournal(database, filePath),
+    migrate: () => [],
+    findAll: memory.findAll,
+    findById: memory.findById,
+    insert: <T extends { id: string }>(collection: CollectionName, record: T) => {
+      const inserted = memory.insert(collection, record);
+      journal.append({ op: 'insert', collection, id: inserted.id, record: inserted });
+      return inserted;
+    },
+    update: <T>(collection: CollectionName, id: string, updates: Partial<T>) => {
+      const updated = memory.update<T>(collection, id, updates);
+      if (updated) journal.append({ op: 'update', collection, id, record: updated });
+      return updated;
+    },
+    replace: <T extends { id: string }>(collection: CollectionName, record: T) => {
+      const replaced = memory.replace(collection, record);
+      if (replaced) journal.append({ op: 'update', collection, id: record.id, record: replaced });
+      return replaced;
+    },
+    delete: <T>(collection: CollectionName, id: string) => {
+      const deleted = memory.delete<T>(collection, id);
+      if (deleted) journal.append({ op: 'delete', collection, id });
+      return deleted;
+    },
+    transaction: journal.transaction,
+    compact: () => compactJournal(database, filePath)
+  };
+}
+
+function createJournalWriter(filePath: string) {
+  let pending: JournalEntry[] | null = null;
+  return {
+    append(entry: JournalEntry): void {
+      if (pending) {
+        pending.push(entry);
+      } else {
+        appendLine(filePath, entry);
+      }
+    },
+    transaction<T>(work: () => T): T {
+      if (pending) return work();
+      pending = [];
+      try {
+        return work();
+      } finally {
+        const entries = pending;
+        pending = null;
+        flushEntries(filePath, entries);
+      }
+    }
+  };
+}
+
+function flushEntries(filePath: string, entries: JournalEntry[]): void {
+  if (entries.length === 0) return;
+  appendLine(filePath, entries.length === 1 ? entries[0] : { op: 'batch', entries });
+}
+
+function openJournal(database: Database, filePath: string): void {
+  ensureDirectory(filePath);
+  if (fs.existsSync(filePath)) {
+    const entries = readJournal(filePath);
+    entries.forEach(entry => replayLine(database, entry));
+  }
+  compactJournal(database, filePath);
+}
+
+function ensureDirectory(filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+}
+
+function readJournal(filePath: string): JournalLine[] {
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+  const lastLine = findLastEntryLine(lines);
+  const entries: JournalLine[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const entry = parseEntry(line);
+    if (entry) {
+      entries.push(entry);
+    } else if (index === lastLine) {
+      console.warn(`Ignoring incomplete entry on line ${index + 1} of ${filePath}`);
+    } else {
+      throw new Error(`Journal ${filePath} has an unreadable entry on line ${index + 1}; fix or remove it before starting`);
+    }
+  });
+  return entries;
+}
+
+function findLastEntryLine(lines: string[]): number {
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (lines[index].trim()) return index;
+  }
+  return -1;
+}
+
+function parseEntry(line: string): JournalLine | null {
+  try {
+    return parseRecord<JournalLine>(line);
+  } catch {
+    return null;
+  }
+}
+
+function replayLine(database: Database, line: JournalLine): void {
+  if (line.op === 'batch') {
+    line.entries.forEach(entry => replayEntry(database, entry));
+  } else {
+    replayEntry(database, line);
+  }
+}
+
+function replayEntry(database: Database, entry: JournalEntry): void {
+  const records = database[entry.collection] as any[] | undefined;
+  if (!records) return;
+  const index = records.findIndex(record => record.id === entry.id);
+  if (entry.op === 'delete') {
+    if (index !== -1) records.splice(index, 1);
+    return;
+  }
+  if (index !== -1) {
+    records[index] = entry.record;
+  } else {
+    records.push(entry.record);
+  }
+}
+
+function compactJournal(database: Database, filePath: string): void {
+  const lines = buildSnapshotLines(database);
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, lines.length ? lines.join('\n') + '\n' : '');
+  fs.renameSync(tempPath, filePath);
+}
+
+function buildSnapshotLines(database: Database): string[] {
+  const lines: string[] = [];
+  for (const collection of Object.keys(database) as CollectionName[]) {
+    for (const record of database[collection] as { id: string }[]) {
+      lines.push(serializeEntry({ op: 'insert', collection, id: record.id, record }));
+    }
+  }
+  return lines;
+}
+
+function appendLine(filePath: string, entry: JournalLine): void {
+  fs.appendFileSync(filePath, serializeEntry(entry) + '\n');
+}
+
+function serializeEntry(entry: JournalLine): string {
+  return serializeRecord(entry);
+}
@@ -0,0 +1,31 @@
+import path from 'path';
+import { createMemoryStorage } from './memoryStorage';
+import { createFileStorage } from './fileStorage';
+import { createSqliteStorage } from './sqliteStorage';
+import { Database, StorageAdapter, StorageDriver } from '../../types';
+
+const DEFAULT_FILE_PATH = path.join(process.cwd(), 'data', 'database.ndjson');
+const DEFAULT_SQLITE_PATH = path.join(process.cwd(), 'data', 'database.sqlite');
+
+export function createStorageAdapter(database: Database): StorageAdapter {
+  const driver = resolveStorageDriver(process.env.DB_DRIVER);
+  switch (driver) {
+    case 'file':
+      return createFileStorage(database, process.env.DB_FILE_PATH || DEFAULT_FILE_PATH);
+    case 'sqlite':
+      return createSqliteStorage(database, process.env.DB_SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    default:
+      return createMemoryStorage(database);
+  }
+}
+
+function resolveStorageDriver(value?: string): StorageDriver {
+  const drivers: StorageDriver[] = ['memory', 'file', 'sqlite'];
+  if (!value) return 'memory';
+  if (!drivers.includes(value as StorageDriver)) {
+    throw new Error(`Unknown DB_DRIVER "${value}", expected one of: ${drivers.join(', ')}`);
+  }
+  return value as StorageDriver;
+}
+
+export { createMemoryStorage, createFileStorage, createSqliteStorage };
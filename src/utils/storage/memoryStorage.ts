@@ -0,0 +1,54 @@
+import { CollectionName, Database, StorageAdapter } from '../../types';
+
+export function createMemoryStorage(database: Database): StorageAdapter {
+  return {
+    driver: 'memory',
+    open: () => undefined,
+    migrate: () => [],
+    findAll: <T>(collection: CollectionName) => getRecords<T>(database, collection),
+    findById: <T>(collection: CollectionName, id: string) => findRecord<T>(database, collection, id),
+    insert: <T extends { id: string }>(collection: CollectionName, record: T) => appendRecord(database, collection, record),
+    update: <T>(collection: CollectionName, id: string, updates: Partial<T>) => mergeRecord<T>(database, collection, id, updates),
+    replace: <T extends { id: string }>(collection: CollectionName, record: T) => replaceRecord(database, collection, record),
+    delete: <T>(collection: CollectionName, id: string) => removeRecord<T>(database, collection, id),
+    transaction: <T>(work: () => T) => work(),
+    compact: () => undefined
+  };
+}
+
+function getRecords<T>(database: Database, collection: CollectionName): T[] {
+  return (database[collection] || []) as unknown as T[];
+}
+
+function findRecord<T>(database: Database, collection: CollectionName, id: string): T | undefined {
+  const records = getRecords<any>(database, collection);
+  return records.find(record => record.id === id) as T | undefined;
+}
+
+function appendRecord<T>(database: Database, collection: CollectionName, record: T): T {
+  getRecords<T>(database, collection).push(record);
+  return record;
+}
+
+function mergeRecord<T>(database: Database, collection: CollectionName, id: string, updates: Partial<T>): T | null {
+  const records = getRecords<any>(database, collection);
+  const index = records.findIndex(record => record.id === id);
+  if (index === -1) return null;
+  records[index] = { ...records[index], ...updates };
+  return records[index] as T;
+}
+
+function replaceRecord<T extends { id: string }>(database: Database, collection: CollectionName, record: T): T | null {
+  const records = getRecords<any>(database, collection);
+  const index = records.findIndex(existing => existing.id === record.id);
+  if (index === -1) return null;
+  records[index] = record;
+  return record;
+}
+
+function removeRecord<T>(database: Database, collection: CollectionName, id: string): T | null {
+  const records = getRecords<any>(database, collection);
+  const index = records.findIndex(record => record.id === id);
+  if (index === -1) return null;
+  return records.splice(index, 1)[0] as T;
+}
@@ -0,0 +1,202 @@
+import { CollectionName } from '../../types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export const collectionColumns: Record<CollectionName, Record<string, string>> = {
+  products: { category_id: 'categoryId' },
+  users: { email: 'email' },
+  orders: { user_id: 'userId', status: 'status' },
+  carts: { user_id: 'userId' },
+  categories: { parent_id: 'parentId' },
+  reviews: { user_id: 'userId', product_id: 'productId' },
+  payments: { order_id: 'orderId', status: 'status' },
+  shipments: { order_id: 'orderId', tracking_number: 'trackingNumber' },
+  changes: { sequence: 'sequence', collection: 'collection', record_id: 'recordId' },
+  refreshTokens: { user_id: 'userId', family_id: 'familyId' },
+  revokedTokens: { expires_at: 'expiresAt' },
+  roles: {},
+  accountTokens: { user_id: 'userId' },
+  loginAttempts: { scope: 'scope' },
+  priceHistory: { product_id: 'productId' }
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_collections',
+    up: `
+      CREATE TABLE products (
+        id TEXT PRIMARY KEY,
+        category_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE orders (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        status TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE carts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE categories (
+        id TEXT PRIMARY KEY,
+        parent_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE reviews (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        product_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE payments (
+        id TEXT PRIMARY KEY,
+        order_id TEXT,
+        status TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE TABLE shipments (
+        id TEXT PRIMARY KEY,
+        order_id TEXT,
+        tracking_number TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'create_lookup_indexes',
+    up: `
+      CREATE INDEX idx_products_category_id ON products (category_id);
+      CREATE UNIQUE INDEX idx_users_email ON users (email);
+      CREATE INDEX idx_orders_user_id ON orders (user_id);
+      CREATE INDEX idx_carts_user_id ON carts (user_id);
+      CREATE INDEX idx_categories_parent_id ON categories (parent_id);
+      CREATE INDEX idx_reviews_product_id ON reviews (product_id);
+      CREATE INDEX idx_reviews_user_id ON reviews (user_id);
+      CREATE INDEX idx_payments_order_id ON payments (order_id);
+      CREATE INDEX idx_shipments_order_id ON shipments (order_id);
+      CREATE UNIQUE INDEX idx_shipments_tracking_number ON shipments (tracking_number);
+    `
+  },
+  {
+    version: 3,
+    name: 'create_changes',
+    up: `
+      CREATE TABLE changes (
+        id TEXT PRIMARY KEY,
+        sequence INTEGER NOT NULL,
+        collection TEXT,
+        record_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE UNIQUE INDEX idx_changes_sequence ON changes (sequence);
+    `
+  },
+  {
+    version: 4,
+    name: 'create_auth_tokens',
+    up: `
+      CREATE TABLE refreshTokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        family_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE INDEX idx_refresh_tokens_user_id ON refreshTokens (user_id);
+      CREATE INDEX idx_refresh_tokens_family_id ON refreshTokens (family_id);
+      CREATE TABLE revokedTokens (
+        id TEXT PRIMARY KEY,
+        expires_at TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `
+  },
+  {
+    version: 5,
+    name: 'create_roles',
+    up: `
+      CREATE TABLE roles (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `
+  },
+  {
+    version: 6,
+    name: 'create_account_tokens',
+    up: `
+      CREATE TABLE accountTokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE INDEX idx_account_tokens_user_id ON accountTokens (user_id);
+    `
+  },
+  {
+    version: 7,
+    name: 'create_login_attempts',
+    up: `
+      CREATE TABLE loginAttempts (
+        id TEXT PRIMARY KEY,
+        scope TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `
+  },
+  {
+    version: 8,
+    name: 'create_price_history',
+    up: `
+      CREATE TABLE priceHistory (
+        id TEXT PRIMARY KEY,
+        product_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT
+      );
+      CREATE INDEX idx_price_history_product_id ON priceHistory (product_id);
+    `
+  }
+];
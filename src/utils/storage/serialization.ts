@@ -0,0 +1,18 @@
+export function serializeRecord(record: unknown): string {
+  return JSON.stringify(record);
+}
+
+export function parseRecord<T>(json: string): T {
+  return JSON.parse(json, reviveDates) as T;
+}
+
+function reviveDates(key: string, value: unknown): unknown {
+  if (typeof value === 'string' && isDateKey(key) && !isNaN(Date.parse(value))) {
+    return new Date(value);
+  }
+  return value;
+}
+
+function isDateKey(key: string): boolean {
+  return key.endsWith('At') || key === 'timestamp';
+}
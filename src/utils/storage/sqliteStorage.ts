@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { createMemoryStorage } from './memoryStorage';
+import { serializeRecord, parseRecord } from './serialization';
+import { migrations, collectionColumns, Migration } from './migrations';
+import { CollectionName, Database, StorageAdapter } from '../../types';
+
+type Connection = BetterSqlite3.Database;
+
+export function createSqliteStorage(database: Database, filePath: string): StorageAdapter {
+  const memory = createMemoryStorage(database);
+  let connection: Connection | null = null;
+  const getConnection = (): Connection => {
+    if (!connection) connection = openConnection(filePath);
+    return connection;
+  };
+  return {
+    driver: 'sqlite',
+    open: () => loadCollections(getConnection(), database),
+    migrate: () => runMigrations(getConnection()),
+    findAll: memory.findAll,
+    findById: memory.findById,
+    insert: <T extends { id: string }>(collection: CollectionName, record: T) => {
+      writeRow(getConnection(), collection, record);
+      return memory.insert(collection, record);
+    },
+    update: <T>(collection: CollectionName, id: string, updates: Partial<T>) => {
+      const current = memory.findById<T>(collection, id);
+      if (!current) return null;
+      const updated = { ...current, ...updates, id };
+      writeRow(getConnection(), collection, updated);
+      return memory.replace(collection, updated) as T | null;
+    },
+    replace: <T extends { id: string }>(collection: CollectionName, record: T) => {
+      if (!memory.findById(collection, record.id)) return null;
+      writeRow(getConnection(), collection, record);
+      return memory.replace(collection, record);
+    },
+    delete: <T>(collection: CollectionName, id: string) => {
+      if (!memory.findById(collection, id)) return null;
+      deleteRow(getConnection(), collection, id);
+      return memory.delete<T>(collection, id);
+    },
+    transaction: <T>(work: () => T) => getConnection().transaction(work)(),
+    compact: () => {
+      getConnection().pragma('wal_checkpoint(TRUNCATE)');
+    }
+  };
+}
+
+function openConnection(filePath: string): Connection {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const connection = new BetterSqlite3(filePath);
+  connection.pragma('journal_mode = WAL');
+  connection.pragma('secure_delete = ON');
+  return connection;
+}
+
+function runMigrations(connection: Connection): string[] {
+  ensureMigrationsTable(connection);
+  const currentVersion = getSchemaVersion(connection);
+  const pending = migrations.filter(migration => migration.version > currentVersion);
+  pending.forEach(migration => applyMigration(connection, migration));
+  return pending.map(migration => `${migration.version}_${migration.name}`);
+}
+
+function ensureMigrationsTable(connection: Connection): void {
+  connection.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+function getSchemaVersion(connection: Connection): number {
+  const row = connection.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  return row.version || 0;
+}
+
+function applyMigration(connection: Connection, migration: Migration): void {
+  const apply = connection.transaction(() => {
+    connection.exec(migration.up);
+    connection
+      .prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+      .run(migration.version, migration.name, new Date().toISOString());
+  });
+  apply();
+}
+
+function loadCollections(connection: Connection, database: Database): void {
+  for (const collection of Object.keys(collectionColumns) as CollectionName[]) {
+    database[collection] = selectAll<any>(connection, collection);
+  }
+}
+
+function selectAll<T>(connection: Connection, collection: CollectionName): T[] {
+  const rows = connection.prepare(`SELECT data FROM ${collection} ORDER BY rowid`).all() as { data: string }[];
+  return rows.map(row => parseRecord<T>(row.data));
+}
+
+function writeRow(connection: Connection, collection: CollectionName, record: { id: string }): void {
+  const columns = collectionColumns[collection];
+  const columnNames = ['id', ...Object.keys(columns), 'data', 'created_at', 'updated_at'];
+  const placeholders = columnNames.map(() => '?').join(', ');
+  const assignments = columnNames.slice(1).map(column => `${column} = excluded.${column}`).join(', ');
+  const values = buildRowValues(record as Record<string, unknown>, Object.values(columns));
+  connection
+    .prepare(`INSERT INTO ${collection} (${columnNames.join(', ')}) VALUES (${placeholders}) ON CONFLICT(id) DO UPDATE SET ${assignments}`)
+    .run(...values);
+}
+
+function buildRowValues(record: Record<string, unknown>, fields: string[]): (string | null)[] {
+  const fieldValues = fields.map(field => toColumnValue(record[field]));
+  return [String(record.id), ...fieldValues, serializeRecord(record), toColumnValue(record.createdAt), toColumnValue(record.updatedAt)];
+}
+
+function toColumnValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function deleteRow(connection: Connection, collection: CollectionName, id: string): void {
+  connection.prepare(`DELETE FROM ${collection} WHERE id = ?`).run(id);
+}
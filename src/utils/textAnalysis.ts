@@ -0,0 +1,72 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with'
+]);
+const MIN_STEM_LENGTH = 3;
+
+export function tokenize(text: string): string[] {
+  return String(text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+}
+
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+export function stem(token: string): string {
+  if (token.length <= MIN_STEM_LENGTH || /\d/.test(token)) return token;
+  let word = stripPlural(token);
+  word = stripSuffix(word, 'ing') ?? stripSuffix(word, 'ed') ?? word;
+  word = stripSuffix(word, 'ly') ?? word;
+  return word;
+}
+
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function getAllowedTypos(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+function stripPlural(word: string): string {
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function stripSuffix(word: string, suffix: string): string | undefined {
+  if (!word.endsWith(suffix)) return undefined;
+  const base = word.slice(0, -suffix.length);
+  if (base.length < MIN_STEM_LENGTH || !/[aeiouy]/.test(base)) return undefined;
+  return undoubleConsonant(base);
+}
+
+function undoubleConsonant(word: string): string {
+  const last = word[word.length - 1];
+  return last === word[word.length - 2] && !/[aeiouylsz]/.test(last) ? word.slice(0, -1) : word;
+}
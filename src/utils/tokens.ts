@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { hashSecret, safeEqual } from './hashing';
+import { findRecordById, insertRecord, updateRecord, purgeRecord, getStorageDriver } from './database';
+import { query } from './queryBuilder';
+import { AccessTokenPayload, RefreshToken, RevokedToken, TokenPair, User } from '../types';
+
+const DEFAULT_ACCESS_TOKEN_TTL = 900;
+const DEFAULT_REFRESH_TOKEN_TTL = 30 * 24 * 3600;
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+let signingSecret: string | null = null;
+
+export function issueTokenPair(user: User): TokenPair {
+  const refreshToken = createRefreshToken(user.id, crypto.randomUUID());
+  return buildTokenPair(user, refreshToken);
+}
+
+export function rotateRefreshToken(presented: string): { success: boolean; data?: TokenPair; message?: string } {
+  const stored = findRefreshToken(presented);
+  if (!stored || stored.expiresAt.getTime() <= Date.now()) {
+    return { success: false, message: 'Invalid refresh token' };
+  }
+  if (stored.revokedAt) {
+    revokeTokenFamily(stored.familyId);
+    return { success: false, message: 'Refresh token has already been used' };
+  }
+  const user = findRecordById<User>('users', stored.userId);
+  if (!user) {
+    revokeTokenFamily(stored.familyId);
+    return { success: false, message: 'Invalid refresh token' };
+  }
+  const replacement = createRefreshToken(user.id, stored.familyId);
+  updateRecord<RefreshToken>('refreshTokens', stored.id, { revokedAt: new Date(), replacedBy: replacement.id });
+  return { success: true, data: buildTokenPair(user, replacement) };
+}
+
+export function revokeRefreshToken(presented: string): boolean {
+  const stored = findRefreshToken(presented);
+  if (!stored) return false;
+  revokeTokenFamily(stored.familyId);
+  return true;
+}
+
+export function revokeUserRefreshTokens(userId: string): void {
+  query('refreshTokens')
+    .where('userId', userId)
+    .filter(token => !token.revokedAt)
+    .all()
+    .forEach(token => updateRecord<RefreshToken>('refreshTokens', token.id, { revokedAt: new Date() }));
+}
+
+export function revokeAccessToken(payload: AccessTokenPayload): void {
+  pruneRevokedTokens();
+  if (findRecordById('revokedTokens', payload.jti)) return;
+  insertRecord<RevokedToken>('revokedTokens', { id: payload.jti, userId: payload.userId, expiresAt: new Date(payload.exp * 1000) });
+}
+
+export function isAccessTokenRevoked(jti: string): boolean {
+  return Boolean(findRecordById<RevokedToken>('revokedTokens', jti));
+}
+
+export function signAccessToken(user: User): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload: AccessTokenPayload = {
+    userId: user.id,
+    role: user.role,
+    iat: issuedAt,
+    exp: issuedAt + getAccessTokenTtl(),
+    jti: crypto.randomUUID()
+  };
+  const unsigned = `${encodeSegment(JWT_HEADER)}.${encodeSegment(payload)}`;
+  return `${unsigned}.${sign(unsigned)}`;
+}
+
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+  if (!safeEqual(sign(`${header}.${payload}`), signature)) return null;
+  const decodedHeader = decodeSegment<{ alg?: string }>(header);
+  const decoded = decodeSegment<AccessTokenPayload>(payload);
+  if (!decodedHeader || decodedHeader.alg !== JWT_HEADER.alg || !decoded) return null;
+  if (typeof decoded.exp !== 'number' || decoded.exp * 1000 <= Date.now()) return null;
+  if (isAccessTokenRevoked(decoded.jti)) return null;
+  return decoded;
+}
+
+function buildTokenPair(user: User, refreshToken: RefreshToken & { secret: string }): TokenPair {
+  return {
+    token: signAccessToken(user),
+    refreshToken: `${refreshToken.id}.${refreshToken.secret}`,
+    expiresIn: getAccessTokenTtl()
+  };
+}
+
+function createRefreshToken(userId: string, familyId: string): RefreshToken & { secret: string } {
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const stored = insertRecord<RefreshToken>('refreshTokens', {
+    id: crypto.randomUUID(),
+    userId,
+    familyId,
+    tokenHash: hashSecret(secret),
+    expiresAt: new Date(Date.now() + getRefreshTokenTtl() * 1000),
+    revokedAt: null,
+    replacedBy: null
+  });
+  return { ...stored, secret };
+}
+
+function findRefreshToken(presented: string): RefreshToken | undefined {
+  const [id, secret] = String(presented || '').split('.');
+  if (!id || !secret) return undefined;
+  const stored = findRecordById<RefreshToken>('refreshTokens', id);
+  if (!stored || !safeEqual(stored.tokenHash, hashSecret(secret))) return undefined;
+  return stored;
+}
+
+function revokeTokenFamily(familyId: string): void {
+  query('refreshTokens')
+    .where('familyId', familyId)
+    .filter(token => !token.revokedAt)
+    .all()
+    .forEach(token => updateRecord<RefreshToken>('refreshTokens', token.id, { revokedAt: new Date() }));
+}
+
+function pruneRevokedTokens(): void {
+  query('revokedTokens')
+    .filter(token => token.expiresAt.getTime() <= Date.now())
+    .all()
+    .forEach(token => purgeRecord('revokedTokens', token.id));
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSigningSecret()).update(data).digest('base64url');
+}
+
+export function checkSigningSecret(): void {
+  getSigningSecret();
+}
+
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    signingSecret = process.env.JWT_SECRET || generateEphemeralSecret();
+  }
+  return signingSecret;
+}
+
+function generateEphemeralSecret(): string {
+  if (getStorageDriver() !== 'memory') {
+    throw new Error(`JWT_SECRET must be set with the ${getStorageDriver()} storage driver, or stored sessions stop working after a restart`);
+  }
+  console.warn('JWT_SECRET is not set; using a random secret, so tokens will not survive a restart');
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function getAccessTokenTtl(): number {
+  return parseInt(process.env.JWT_ACCESS_TTL || '', 10) || DEFAULT_ACCESS_TOKEN_TTL;
+}
+
+function getRefreshTokenTtl(): number {
+  return parseInt(process.env.REFRESH_TOKEN_TTL || '', 10) || DEFAULT_REFRESH_TOKEN_TTL;
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { updateRecord } from './database';
+import { generateTotpSecret, buildOtpauthUri, verifyTotp } from './totp';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from './secretBox';
+import { hashSecret } from './hashing';
+import { ADMIN_ROLE } from './permissions';
+import { TwoFactorEnrollment, User } from '../types';
+
+const RECOVERY_CODE_COUNT = 10;
+const DEFAULT_ISSUER = 'E-Commerce API';
+
+export function startTwoFactorEnrollment(user: User): TwoFactorEnrollment {
+  const secret = generateTotpSecret();
+  updateRecord<User>('users', user.id, { twoFactorPendingSecret: encryptSecret(secret) });
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email, getIssuer()) };
+}
+
+export function confirmTwoFactorEnrollment(user: User, code: string): string[] | null {
+  const secret = user.twoFactorPendingSecret ? decryptSecret(user.twoFactorPendingSecret) : null;
+  if (!secret) return null;
+  const step = verifyTotp(secret, code);
+  if (step === null) return null;
+  const recoveryCodes = generateRecoveryCodes();
+  updateRecord<User>('users', user.id, {
+    twoFactorEnabled: true,
+    twoFactorEnabledAt: new Date(),
+    twoFactorSecret: encryptSecret(secret),
+    twoFactorPendingSecret: null,
+    twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    twoFactorLastStep: step
+  });
+  return recoveryCodes;
+}
+
+export function verifyTwoFactorCode(user: User, code: string): boolean {
+  const secret = user.twoFactorEnabled && user.twoFactorSecret ? decryptSecret(user.twoFactorSecret) : null;
+  if (!secret) return false;
+  const step = verifyTotp(secret, code, user.twoFactorLastStep ?? null);
+  if (step === null) return false;
+  const upgrade = isEncryptedSecret(user.twoFactorSecret!) ? {} : { twoFactorSecret: encryptSecret(secret) };
+  updateRecord<User>('users', user.id, { twoFactorLastStep: step, ...upgrade });
+  return true;
+}
+
+export function consumeRecoveryCode(user: User, code: string): boolean {
+  const hashed = hashRecoveryCode(code);
+  const remaining = user.twoFactorRecoveryCodes || [];
+  if (!user.twoFactorEnabled || !remaining.includes(hashed)) return false;
+  updateRecord<User>('users', user.id, { twoFactorRecoveryCodes: remaining.filter(stored => stored !== hashed) });
+  return true;
+}
+
+export function regenerateRecoveryCodes(user: User): string[] {
+  const recoveryCodes = generateRecoveryCodes();
+  updateRecord<User>('users', user.id, { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
+
+export function disableTwoFactor(user: User): User | null {
+  return updateRecord<User>('users', user.id, {
+    twoFactorEnabled: false,
+    twoFactorEnabledAt: null,
+    twoFactorSecret: null,
+    twoFactorPendingSecret: null,
+    twoFactorRecoveryCodes: [],
+    twoFactorLastStep: null
+  });
+}
+
+export function isTwoFactorRequired(role: string): boolean {
+  return role === ADMIN_ROLE;
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = String(code || '').toLowerCase().replace(/[^0-9a-f]/g, '');
+  return hashSecret(normalized);
+}
+
+function getIssuer(): string {
+  return process.env.TOTP_ISSUER || DEFAULT_ISSUER;
+}
@@ -1,4 +1,10 @@
-import { Product, User, Order, Payment, Address, ValidationResult, ValidationError } from '../types';
+import { isKnownPermission } from './permissions';
+import { Product, ProductOption, ProductVariant, User, Order, Payment, SavedAddress, Role, ValidationResult, ValidationError } from '../types';
+
+const MAX_ADDRESS_FIELD_LENGTH = 200;
+const ZIP_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{1,11}$/;
+const MAX_OPTION_LABEL_LENGTH = 50;
+const SKU_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
 
 export function validateProduct(product: Partial<Product>): ValidationResult {
   const errors: ValidationError[] = [];
@@ -11,10 +17,67 @@ export function validateProduct(product: Partial<Product>): ValidationResult {
     errors.push(createValidationError('price', 'Valid price is required'));
   }
   
+  if (validateRequiredField(product.salePrice) && !validateSalePrice(product.salePrice, product.price)) {
+    errors.push(createValidationError('salePrice', 'Sale price must be positive and below the regular price'));
+  }
+  
+  if (!validateOptionalDate(product.saleStartsAt)) {
+    errors.push(createValidationError('saleStartsAt', 'Sale start must be a valid date'));
+  }
+  
+  if (!validateOptionalDate(product.saleEndsAt)) {
+    errors.push(createValidationError('saleEndsAt', 'Sale end must be a valid date'));
+  } else if (!validateSaleWindow(product.saleStartsAt, product.saleEndsAt)) {
+    errors.push(createValidationError('saleEndsAt', 'Sale must end after it starts'));
+  }
+  
   if (!validateStock(product.stock)) {
     errors.push(createValidationError('stock', 'Valid stock quantity is required'));
   }
   
+  if (validateRequiredField(product.sku) && !SKU_PATTERN.test(String(product.sku).trim())) {
+    errors.push(createValidationError('sku', 'SKU may only contain letters, digits, dots, dashes and underscores'));
+  }
+  
+  if (product.options !== undefined && !validateProductOptions(product.options)) {
+    errors.push(createValidationError('options', 'Options must be a list of uniquely named axes, each with distinct values'));
+  }
+  
+  return buildValidationResult(errors);
+}
+
+export function validateVariant(variant: Partial<ProductVariant>, options: ProductOption[], isNew: boolean): ValidationResult {
+  const errors: ValidationError[] = [];
+  
+  if (isNew || variant.sku !== undefined) {
+    if (!validateRequiredField(variant.sku)) {
+      errors.push(createValidationError('sku', 'SKU is required'));
+    } else if (!SKU_PATTERN.test(String(variant.sku).trim())) {
+      errors.push(createValidationError('sku', 'SKU may only contain letters, digits, dots, dashes and underscores'));
+    }
+  }
+  
+  if (isNew || variant.options !== undefined) {
+    if (!validateVariantOptions(variant.options, options)) {
+      const axes = options.map(option => option.name).join(', ');
+      errors.push(createValidationError('options', `Options must pick one listed value for each of: ${axes || 'no axes defined'}`));
+    }
+  }
+  
+  if (isNew || variant.stock !== undefined) {
+    if (!validateStock(variant.stock)) {
+      errors.push(createValidationError('stock', 'Valid stock quantity is required'));
+    }
+  }
+  
+  if (variant.price !== undefined && variant.price !== null && !validatePrice(variant.price)) {
+    errors.push(createValidationError('price', 'Price override must be a positive number'));
+  }
+  
+  if (variant.weight !== undefined && variant.weight !== null && !validatePrice(variant.weight)) {
+    errors.push(createValidationError('weight', 'Weight must be a positive number'));
+  }
+  
   return buildValidationResult(errors);
 }
 
@@ -41,16 +104,29 @@ export function validateUser(user: Partial<User & { password?: string }>): Valid
 export function validateOrder(order: Partial<Order>): ValidationResult {
   const errors: ValidationError[] = [];
   
-  if (!validateRequiredField(order.userId)) {
+  if (validateRequiredField(order.guestEmail)) {
+    if (!validateEmailFormat(String(order.guestEmail))) {
+      errors.push(createValidationError('email', 'Invalid email format'));
+    }
+  } else if (!validateRequiredField(order.userId)) {
     errors.push(createValidationError('userId', 'User ID is required'));
   }
   
   if (!validateOrderItems(order.items)) {
     errors.push(createValidationError('items', 'Order must have at least one item'));
+  } else {
+    order.items!.forEach((item, index) => {
+      if (!validateQuantity(item?.quantity)) {
+        errors.push(createValidationError(`items[${index}].quantity`, 'Quantity must be a positive integer'));
+      }
+    });
   }
   
-  if (!validateShippingAddress(order.shippingAddress)) {
+  if (!order.shippingAddress) {
     errors.push(createValidationError('shippingAddress', 'Valid shipping address is required'));
+  } else {
+    const addressErrors = validateShippingAddress(order.shippingAddress).errors;
+    errors.push(...addressErrors.map(error => createValidationError(`shippingAddress.${error.field}`, error.message)));
   }
   
   return buildValidationResult(errors);
@@ -74,6 +150,24 @@ export function validatePayment(payment: Partial<Payment>): ValidationResult {
   return buildValidationResult(errors);
 }
 
+export function validateRole(role: Partial<Role>, isNew: boolean): ValidationResult {
+  const errors: ValidationError[] = [];
+  
+  if (isNew && !validateRoleId(role.id)) {
+    errors.push(createValidationError('id', 'Role ID must be lowercase letters, digits and dashes'));
+  }
+  
+  if (isNew && !validateRequiredField(role.name)) {
+    errors.push(createValidationError('name', 'Role name is required'));
+  }
+  
+  if ((isNew || role.permissions !== undefined) && !validatePermissions(role.permissions)) {
+    errors.push(createValidationError('permissions', 'Permissions must be a list of known permissions'));
+  }
+  
+  return buildValidationResult(errors);
+}
+
 export function validateRequiredField(value: unknown): boolean {
   return value !== undefined && value !== null && value !== '';
 }
@@ -83,6 +177,23 @@ export function validatePrice(price: unknown): boolean {
   return !isNaN(numPrice) && numPrice > 0;
 }
 
+export function validateQuantity(quantity: unknown): boolean {
+  return typeof quantity === 'number' && Number.isInteger(quantity) && quantity > 0;
+}
+
+function validateSalePrice(salePrice: unknown, price: unknown): boolean {
+  return validatePrice(salePrice) && parseFloat(String(salePrice)) < parseFloat(String(price));
+}
+
+function validateOptionalDate(value: unknown): boolean {
+  return !validateRequiredField(value) || !isNaN(new Date(value as string | number | Date).getTime());
+}
+
+function validateSaleWindow(startsAt: unknown, endsAt: unknown): boolean {
+  if (!validateRequiredField(startsAt) || !validateRequiredField(endsAt) || !validateOptionalDate(startsAt)) return true;
+  return new Date(endsAt as string | number | Date) > new Date(startsAt as string | number | Date);
+}
+
 function validateStock(stock: unknown): boolean {
   const numStock = parseInt(String(stock));
   return !isNaN(numStock) && numStock >= 0;
@@ -93,20 +204,83 @@ export function validateEmailFormat(email: string): boolean {
   return emailRegex.test(email);
 }
 
-function validatePassword(password: unknown): boolean {
+export function validatePassword(password: unknown): boolean {
   return typeof password === 'string' && password.length >= 8;
 }
 
+function validateRoleId(id: unknown): boolean {
+  return typeof id === 'string' && /^[a-z][a-z0-9-]{1,31}$/.test(id);
+}
+
+function validatePermissions(permissions: unknown): boolean {
+  return Array.isArray(permissions) && permissions.every(isKnownPermission);
+}
+
+function validateProductOptions(options: unknown): boolean {
+  if (!Array.isArray(options)) return false;
+  const names = options.map(option => option?.name);
+  return options.every(option => validateOptionLabel(option?.name) && validateOptionValues(option.values)) &&
+    new Set(names).size === names.length;
+}
+
+function validateOptionValues(values: unknown): boolean {
+  return Array.isArray(values) && values.length > 0 &&
+    values.every(value => validateOptionLabel(value)) &&
+    new Set(values).size === values.length;
+}
+
+function validateOptionLabel(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_OPTION_LABEL_LENGTH;
+}
+
+function validateVariantOptions(selected: unknown, options: ProductOption[]): boolean {
+  if (options.length === 0 || !selected || typeof selected !== 'object' || Array.isArray(selected)) return false;
+  const chosen = selected as Record<string, unknown>;
+  return Object.keys(chosen).length === options.length &&
+    options.every(option => typeof chosen[option.name] === 'string' && option.values.includes(chosen[option.name] as string));
+}
+
 function validateOrderItems(items: unknown): boolean {
   return Array.isArray(items) && items.length > 0;
 }
 
-function validateShippingAddress(address: unknown): boolean {
-  if (!address) return false;
-  const addr = address as Address;
-  return validateRequiredField(addr.street) && 
-         validateRequiredField(addr.city) && 
-         validateRequiredField(addr.zipCode);
+export function validateShippingAddress(address: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+  if (!address || typeof address !== 'object') {
+    errors.push(createValidationError('address', 'Address must be an object'));
+    return buildValidationResult(errors);
+  }
+  
+  const addr = address as Partial<SavedAddress>;
+  for (const field of ['street', 'city', 'zipCode'] as const) {
+    if (!validateRequiredField(addr[field])) {
+      errors.push(createValidationError(field, `${field} is required`));
+    } else if (!validateAddressText(addr[field])) {
+      errors.push(createValidationError(field, `${field} must be text of at most ${MAX_ADDRESS_FIELD_LENGTH} characters`));
+    }
+  }
+  
+  for (const field of ['state', 'country', 'label'] as const) {
+    if (validateRequiredField(addr[field]) && !validateAddressText(addr[field])) {
+      errors.push(createValidationError(field, `${field} must be text of at most ${MAX_ADDRESS_FIELD_LENGTH} characters`));
+    }
+  }
+  
+  if (validateAddressText(addr.zipCode) && !ZIP_CODE_PATTERN.test(String(addr.zipCode).trim())) {
+    errors.push(createValidationError('zipCode', 'zipCode may only contain letters, digits, spaces and dashes'));
+  }
+  
+  for (const field of ['isDefaultShipping', 'isDefaultBilling'] as const) {
+    if (addr[field] !== undefined && typeof addr[field] !== 'boolean') {
+      errors.push(createValidationError(field, `${field} must be a boolean`));
+    }
+  }
+  
+  return buildValidationResult(errors);
+}
+
+function validateAddressText(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_ADDRESS_FIELD_LENGTH;
 }
 
 function validatePaymentMethod(method: unknown): boolean {
@@ -0,0 +1,141 @@
+import { updateRecord } from './database';
+import { query } from './queryBuilder';
+import { generateId } from './helpers';
+import { getEffectivePrice } from './pricing';
+import { Product, ProductOption, ProductVariant } from '../types';
+
+type VariantInput = Partial<Omit<ProductVariant, 'id'>>;
+
+interface SkuOwner {
+  product: Product;
+  variant?: ProductVariant;
+}
+
+export function hasVariants(product: Product): boolean {
+  return (product.variants || []).length > 0;
+}
+
+export function findVariant(product: Product, variantId: string): ProductVariant | undefined {
+  return (product.variants || []).find(variant => variant.id === variantId);
+}
+
+export function resolveVariant(product: Product, variantId?: string): { success: boolean; data?: ProductVariant; message?: string } {
+  if (!variantId) {
+    return hasVariants(product)
+      ? { success: false, message: `Choose a variant of ${product.name}` }
+      : { success: true };
+  }
+  const variant = findVariant(product, variantId);
+  if (!variant) {
+    return { success: false, message: `Variant ${variantId} not found for ${product.name}` };
+  }
+  return { success: true, data: variant };
+}
+
+export function getAvailableStock(product: Product, variantId?: string): number {
+  if (!variantId) return hasVariants(product) ? 0 : product.stock;
+  return findVariant(product, variantId)?.stock || 0;
+}
+
+export function getVariantPrice(product: Product, variant?: ProductVariant): number {
+  return variant && typeof variant.price === 'number' ? variant.price : getEffectivePrice(product).effectivePrice;
+}
+
+export function findSkuOwner(sku: string): SkuOwner | undefined {
+  const normalized = sku.trim().toUpperCase();
+  for (const product of query('products').includeDeleted().all()) {
+    if (product.sku && product.sku.toUpperCase() === normalized) return { product };
+    const variant = (product.variants || []).find(entry => entry.sku.toUpperCase() === normalized);
+    if (variant) return { product, variant };
+  }
+  return undefined;
+}
+
+export function indexSkus(): Map<string, SkuOwner> {
+  const owners = new Map<string, SkuOwner>();
+  for (const product of query('products').includeDeleted().all()) {
+    if (product.sku) owners.set(product.sku.toUpperCase(), { product });
+    (product.variants || []).forEach(variant => owners.set(variant.sku.toUpperCase(), { product, variant }));
+  }
+  return owners;
+}
+
+export function findSkuConflict(sku: string, exclude: { productId?: string; variantId?: string } = {}): SkuOwner | undefined {
+  const owner = findSkuOwner(sku);
+  if (!owner) return undefined;
+  const sameRecord = exclude.variantId
+    ? owner.variant?.id === exclude.variantId
+    : !owner.variant && owner.product.id === exclude.productId;
+  return sameRecord ? undefined : owner;
+}
+
+export function findMatchingVariant(product: Product, options: Record<string, string>): ProductVariant | undefined {
+  const key = buildOptionKey(options);
+  return (product.variants || []).find(variant => buildOptionKey(variant.options) === key);
+}
+
+export function findVariantsOutsideOptions(variants: ProductVariant[], options: ProductOption[]): ProductVariant[] {
+  return variants.filter(variant => !matchesOptionAxes(variant.options, options));
+}
+
+export function matchesOptionAxes(selected: Record<string, string>, options: ProductOption[]): boolean {
+  const names = Object.keys(selected || {});
+  return names.length === options.length &&
+    options.every(option => option.values.includes(selected[option.name]));
+}
+
+export function addVariant(product: Product, input: VariantInput): ProductVariant {
+  const variant: ProductVariant = { ...pickVariantFields(input), id: generateId() } as ProductVariant;
+  saveVariants(product, [...(product.variants || []), variant]);
+  return variant;
+}
+
+export function updateVariant(product: Product, variantId: string, input: VariantInput): ProductVariant | undefined {
+  const current = findVariant(product, variantId);
+  if (!current) return undefined;
+  const updated: ProductVariant = { ...current, ...pickVariantFields(input) };
+  saveVariants(product, (product.variants || []).map(variant => (variant.id === variantId ? updated : variant)));
+  return updated;
+}
+
+export function removeVariant(product: Product, variantId: string): ProductVariant | undefined {
+  const removed = findVariant(product, variantId);
+  if (!removed) return undefined;
+  saveVariants(product, (product.variants || []).filter(variant => variant.id !== variantId));
+  return removed;
+}
+
+export function buildStockAdjustment(product: Product, variantId: string | undefined, delta: number): Partial<Product> {
+  if (!variantId) {
+    return { stock: product.stock + delta };
+  }
+  const variants = (product.variants || []).map(variant =>
+    variant.id === variantId ? { ...variant, stock: variant.stock + delta } : variant
+  );
+  return { variants, stock: sumVariantStock(variants) };
+}
+
+function saveVariants(product: Product, variants: ProductVariant[]): Product | null {
+  return updateRecord<Product>('products', product.id, { variants, stock: sumVariantStock(variants) });
+}
+
+function sumVariantStock(variants: ProductVariant[]): number {
+  return variants.reduce((total, variant) => total + variant.stock, 0);
+}
+
+function pickVariantFields(input: VariantInput): Partial<ProductVariant> {
+  const fields: Partial<ProductVariant> = {};
+  if (input.sku !== undefined) fields.sku = String(input.sku).trim();
+  if (input.options !== undefined) fields.options = { ...input.options };
+  if (input.price !== undefined) fields.price = input.price === null ? null : parseFloat(String(input.price));
+  if (input.stock !== undefined) fields.stock = parseInt(String(input.stock), 10);
+  if (input.weight !== undefined) fields.weight = input.weight === null ? null : parseFloat(String(input.weight));
+  return fields;
+}
+
+function buildOptionKey(options: Record<string, string>): string {
+  return Object.keys(options || {})
+    .sort()
+    .map(name => `${name}=${options[name]}`)
+    .join('|');
+}
@@ -0,0 +1,32 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Database } from '../src/types';
+
+export function createEmptyDatabase(): Database {
+  return {
+    products: [],
+    users: [],
+    orders: [],
+    carts: [],
+    categories: [],
+    reviews: [],
+    payments: [],
+    shipments: [],
+    changes: [],
+    refreshTokens: [],
+    revokedTokens: [],
+    roles: [],
+    accountTokens: [],
+    loginAttempts: [],
+    priceHistory: []
+  };
+}
+
+export function createTempDirectory(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'ecommerce-ts-'));
+}
+
+export function removeTempDirectory(directory: string): void {
+  fs.rmSync(directory, { recursive: true, force: true });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, formatCsvRow } from '../../src/utils/csv';
+
+function parse(...chunks: string[]): string[][] {
+  const rows: string[][] = [];
+  const parser = createCsvParser(values => rows.push(values));
+  chunks.forEach(chunk => parser.push(chunk));
+  parser.end();
+  return rows;
+}
+
+describe('createCsvParser', () => {
+  it('splits rows and fields, ignoring carriage returns and blank lines', () => {
+    expect(parse('a,b\r\n\r\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reads quoted fields with commas, newlines and doubled quotes', () => {
+    expect(parse('"a,1","say ""hi""","line\nbreak"\n')).toEqual([['a,1', 'say "hi"', 'line\nbreak']]);
+  });
+
+  it('handles quotes and rows split across chunks', () => {
+    expect(parse('"say "', '"hi""",x\ny', ',z')).toEqual([['say "hi"', 'x'], ['y', 'z']]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parse('﻿sku,name\n')).toEqual([['sku', 'name']]);
+  });
+
+  it('throws when the input ends inside a quoted field', () => {
+    expect(() => parse('a,"unterminated\n')).toThrow('CSV ends inside a quoted field');
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('quotes cells that need it and defuses spreadsheet formulas', () => {
+    expect(formatCsvRow(['plain', 'a,b', 'say "hi"', '=SUM(A1)', -5, null])).toBe('plain,"a,b","say ""hi""",\'=SUM(A1),-5,\r\n');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { findRecordById, insertRecord, purgeRecord, withTransaction } from '../../src/utils/database';
+import { Category } from '../../src/types';
+
+function createCategory(id: string, name: string): Category {
+  return insertRecord<Category>('categories', { id, name });
+}
+
+describe('withTransaction', () => {
+  it('commits every staged write', () => {
+    createCategory('commit-1', 'Books');
+    const result = withTransaction(tx => {
+      tx.update<Category>('categories', 'commit-1', { name: 'Novels' });
+      return tx.insert<Category>('categories', { id: 'commit-2', name: 'Music' });
+    });
+
+    expect(result).toMatchObject({ success: true, data: { id: 'commit-2' } });
+    expect(findRecordById<Category>('categories', 'commit-1')).toMatchObject({ name: 'Novels', version: 2 });
+    expect(findRecordById<Category>('categories', 'commit-2')).toBeDefined();
+  });
+
+  it('writes nothing when the work throws', () => {
+    const result = withTransaction(tx => {
+      tx.insert<Category>('categories', { id: 'thrown-1', name: 'Books' });
+      throw new Error('Out of stock');
+    });
+
+    expect(result).toEqual({ success: false, message: 'Out of stock' });
+    expect(findRecordById('categories', 'thrown-1')).toBeUndefined();
+  });
+
+  it('rolls back applied writes when a later write fails', () => {
+    const original = createCategory('rollback-1', 'Books');
+    createCategory('rollback-2', 'Music');
+
+    const result = withTransaction(tx => {
+      tx.update<Category>('categories', 'rollback-1', { name: 'Novels' });
+      tx.insert<Category>('categories', { id: 'rollback-3', name: 'Games' });
+      tx.update<Category>('categories', 'rollback-2', { name: 'Songs' });
+      purgeRecord('categories', 'rollback-2');
+      return null;
+    });
+
+    expect(result.success).toBe(false);
+    expect(findRecordById('categories', 'rollback-3')).toBeUndefined();
+    expect(findRecordById<Category>('categories', 'rollback-1')).toEqual(original);
+  });
+});
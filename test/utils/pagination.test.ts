@@ -0,0 +1,69 @@
+import { Request } from 'express';
+import { describe, expect, it } from 'vitest';
+import { paginate, parseListQuery } from '../../src/utils/pagination';
+import { ListQuery, Page } from '../../src/types';
+
+const LIST_OPTIONS = { sortable: ['createdAt', 'total'], defaultSort: '-createdAt', sortAliases: { total: 'totalAmount' } };
+
+const orders = [
+  { id: 'o1', totalAmount: 30, createdAt: '2024-01-01T00:00:00.000Z' },
+  { id: 'o2', totalAmount: 10, createdAt: '2024-01-03T00:00:00.000Z' },
+  { id: 'o3', totalAmount: 20, createdAt: '2024-01-02T00:00:00.000Z' },
+  { id: 'o4', totalAmount: 20, createdAt: '2024-01-04T00:00:00.000Z' },
+  { id: 'o5', totalAmount: 50, createdAt: '2024-01-05T00:00:00.000Z' }
+];
+
+function parse(query: Record<string, string>): ListQuery {
+  const result = parseListQuery({ query } as unknown as Request, LIST_OPTIONS);
+  if (!result.success || !result.data) throw new Error(result.message);
+  return result.data;
+}
+
+describe('parseListQuery', () => {
+  it('maps sort aliases to record fields', () => {
+    expect(parse({ sort: '-total,createdAt' }).sort).toEqual([
+      { field: 'totalAmount', direction: 'desc' },
+      { field: 'createdAt', direction: 'asc' }
+    ]);
+  });
+
+  it('rejects unknown sort fields and non-positive limits', () => {
+    expect(parseListQuery({ query: { sort: 'password' } } as unknown as Request, LIST_OPTIONS)).toMatchObject({ success: false });
+    expect(parseListQuery({ query: { limit: '0' } } as unknown as Request, LIST_OPTIONS)).toMatchObject({ success: false });
+  });
+
+  it('rejects a cursor issued for a different sort', () => {
+    const { nextCursor } = paginate(orders, parse({ sort: 'total', limit: '2' }));
+
+    expect(parseListQuery({ query: { sort: 'createdAt', cursor: nextCursor! } } as unknown as Request, LIST_OPTIONS))
+      .toMatchObject({ success: false, message: 'cursor is invalid or was issued for a different sort' });
+  });
+});
+
+describe('paginate', () => {
+  it('sorts with id as a tie-breaker and reports the page', () => {
+    const page = paginate(orders, parse({ sort: 'total', limit: '2', page: '2', fields: 'totalAmount' }));
+
+    expect(page).toMatchObject({ page: 2, limit: 2, total: 5 });
+    expect(page.items).toEqual([{ id: 'o4', totalAmount: 20 }, { id: 'o1', totalAmount: 30 }]);
+  });
+
+  it('walks every record exactly once by following cursors', () => {
+    const seen: string[] = [];
+    let cursor: string | null = '';
+    do {
+      const page: Page<typeof orders[number]> = paginate(orders, parse({ sort: 'total', limit: '2', cursor: cursor || '' }));
+      seen.push(...page.items.map(item => String(item.id)));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['o2', 'o3', 'o4', 'o1', 'o5']);
+  });
+
+  it('continues after the cursor record when earlier records are removed', () => {
+    const { nextCursor } = paginate(orders, parse({ limit: '2' }));
+    const remaining = orders.filter(order => order.id !== 'o5');
+
+    expect(paginate(remaining, parse({ limit: '2', cursor: nextCursor! })).items.map(item => item.id)).toEqual(['o2', 'o3']);
+  });
+});
@@ -0,0 +1,58 @@
+import { Readable } from 'stream';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { findAllRecords, insertRecord } from '../../src/utils/database';
+import { importProductsCsv } from '../../src/utils/productCsv';
+import { Category, Product } from '../../src/types';
+
+function importCsv(lines: string[], dryRun = false) {
+  return importProductsCsv(Readable.from([Buffer.from(lines.join('\n') + '\n')]), dryRun);
+}
+
+function findBySku(sku: string): Product | undefined {
+  return findAllRecords<Product>('products').find(product => product.sku === sku);
+}
+
+describe('importProductsCsv', () => {
+  beforeAll(() => {
+    insertRecord<Category>('categories', { id: 'cat-1', name: 'Books' });
+    insertRecord<Product>('products', { id: 'prod-1', sku: 'BOOK-1', name: 'Atlas', price: 20, stock: 5, categoryId: 'cat-1' });
+  });
+
+  it('creates new SKUs, updates known ones and reports invalid rows', async () => {
+    const report = await importCsv([
+      'sku,name,price,stock,categoryId',
+      'BOOK-1,,25,,',
+      'BOOK-2,Globe,30,2,cat-1',
+      'BOOK-3,Map,-1,2,cat-1',
+      'BOOK-4,Chart,10,2,cat-missing',
+      'book-2,Copy,10,1,cat-1'
+    ]);
+
+    expect(report).toMatchObject({ rows: 5, created: 1, updated: 1, failed: 3 });
+    expect(report.errors.map(error => [error.row, error.field])).toEqual([[4, 'price'], [5, 'categoryId'], [6, 'sku']]);
+    expect(findBySku('BOOK-1')).toMatchObject({ name: 'Atlas', price: 25, stock: 5 });
+    expect(findBySku('BOOK-2')).toMatchObject({ name: 'Globe', price: 30, stock: 2 });
+    expect(findBySku('BOOK-3')).toBeUndefined();
+  });
+
+  it('saves nothing on a dry run', async () => {
+    const report = await importCsv(['sku,name,price,stock,categoryId', 'BOOK-5,Compass,12,1,cat-1'], true);
+
+    expect(report).toMatchObject({ dryRun: true, created: 1 });
+    expect(findBySku('BOOK-5')).toBeUndefined();
+  });
+
+  it('saves nothing when the file cannot be read to the end', async () => {
+    await expect(importCsv([
+      'sku,name,price,stock,categoryId',
+      'BOOK-6,Sextant,40,1,cat-1',
+      'BOOK-7,"Unterminated,40,1,cat-1'
+    ])).rejects.toThrow('CSV ends inside a quoted field');
+
+    expect(findBySku('BOOK-6')).toBeUndefined();
+  });
+
+  it('requires a sku column', async () => {
+    await expect(importCsv(['name,price', 'Globe,30'])).rejects.toThrow(/sku column/);
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { deleteRecord, insertRecord, updateRecord } from '../../src/utils/database';
+import { searchProducts } from '../../src/utils/searchIndex';
+import { Category, Product } from '../../src/types';
+
+function createProduct(id: string, name: string, description: string, categoryId = 'furniture'): Product {
+  return insertRecord<Product>('products', { id, sku: id.toUpperCase(), name, description, price: 100, stock: 10, categoryId });
+}
+
+function searchIds(query: string): string[] {
+  return searchProducts({ query }).hits.map(hit => hit.product.id);
+}
+
+describe('searchProducts', () => {
+  beforeAll(() => {
+    insertRecord<Category>('categories', { id: 'furniture', name: 'Furniture' });
+    insertRecord<Category>('categories', { id: 'lighting', name: 'Lighting' });
+    createProduct('desk', 'Standing Desk', 'Adjustable frame with a wide oak top');
+    createProduct('lamp', 'Desk Lamp', 'Warm light for reading', 'lighting');
+    createProduct('chair', 'Office Chair', 'Pairs well with any desk, padded seat and armrests for long working days');
+  });
+
+  it('ranks a name match above a description match', () => {
+    const hits = searchProducts({ query: 'desk' }).hits;
+
+    expect(hits.map(hit => hit.product.id).sort()).toEqual(['chair', 'desk', 'lamp']);
+    expect(hits[2].product.id).toBe('chair');
+    expect(hits[1].score).toBeGreaterThan(hits[2].score);
+  });
+
+  it('requires every query term to match', () => {
+    expect(searchIds('desk light')).toEqual(['lamp']);
+  });
+
+  it('matches stemmed words, prefixes and small typos', () => {
+    expect(searchIds('chairs')).toEqual(['chair']);
+    expect(searchIds('adjust')).toEqual(['desk']);
+    expect(searchIds('ofice')).toEqual(['chair']);
+  });
+
+  it('matches products by category name', () => {
+    expect(searchIds('lighting')).toEqual(['lamp']);
+  });
+
+  it('keeps the index in step with product writes', () => {
+    createProduct('shelf', 'Bookshelf', 'Five shelves of oak');
+    expect(searchIds('bookshelf')).toEqual(['shelf']);
+
+    updateRecord<Product>('products', 'shelf', { name: 'Cabinet' });
+    expect(searchIds('bookshelf')).toEqual([]);
+    expect(searchIds('cabinet')).toEqual(['shelf']);
+
+    deleteRecord('products', 'shelf');
+    expect(searchIds('cabinet')).toEqual([]);
+  });
+
+  it('filters hits while counting facets across all matches', () => {
+    const result = searchProducts({ query: 'desk', category: 'lighting' });
+
+    expect(result.hits.map(hit => hit.product.id)).toEqual(['lamp']);
+    expect(result.facets.category).toEqual(expect.arrayContaining([
+      expect.objectContaining({ value: 'furniture', count: 2 }),
+      expect.objectContaining({ value: 'lighting', count: 1 })
+    ]));
+  });
+});
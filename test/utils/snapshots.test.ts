@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { applyRecordChanges, findAllRecords, findRecordById, insertRecord } from '../../src/utils/database';
+import { buildSnapshot, importSnapshot } from '../../src/utils/snapshots';
+import { Category, Role, Snapshot, User } from '../../src/types';
+
+function buildUser(id: string, email: string): User {
+  return { id, email, name: id, password: 'hash', role: 'customer' } as User;
+}
+
+describe('importSnapshot', () => {
+  beforeAll(() => {
+    insertRecord<Role>('roles', { id: 'customer', name: 'Customer', permissions: [] } as unknown as Role);
+    insertRecord<User>('users', buildUser('user-1', 'one@example.com'));
+    insertRecord<User>('users', buildUser('user-2', 'two@example.com'));
+    insertRecord<Category>('categories', { id: 'cat-1', name: 'Books' });
+  });
+
+  it('keeps collections the snapshot leaves out in replace mode', () => {
+    const snapshot: Snapshot = { ...buildSnapshot(), collections: { categories: [{ id: 'cat-2', name: 'Music' }] } };
+
+    const result = importSnapshot(snapshot, 'replace');
+
+    expect(result).toMatchObject({ isValid: true, removed: 1, imported: { categories: 1 } });
+    expect(findAllRecords<Category>('categories').map(category => category.id)).toEqual(['cat-2']);
+    expect(findRecordById('roles', 'customer')).toBeDefined();
+    expect(findAllRecords('users')).toHaveLength(2);
+  });
+
+  it('rejects a snapshot that would repeat a user email and changes nothing', () => {
+    const snapshot: Snapshot = { ...buildSnapshot(), collections: { users: [buildUser('user-3', 'one@example.com')] } };
+
+    const result = importSnapshot(snapshot, 'merge');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toMatchObject({ field: 'users.email' });
+    expect(findRecordById('users', 'user-3')).toBeUndefined();
+  });
+
+  it('rejects references to records that a replace would remove', () => {
+    const snapshot: Snapshot = { ...buildSnapshot(), collections: { roles: [] } };
+
+    const result = importSnapshot(snapshot, 'replace');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0].message).toMatch(/missing roles record customer/);
+    expect(findRecordById('roles', 'customer')).toBeDefined();
+  });
+});
+
+describe('applyRecordChanges', () => {
+  it('restores purged records when a later change fails', () => {
+    const kept = insertRecord<Category>('categories', { id: 'cat-kept', name: 'Games' });
+
+    const result = applyRecordChanges([
+      { type: 'purge', collection: 'categories', record: kept },
+      { type: 'purge', collection: 'categories', record: { id: 'cat-missing' } }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(findRecordById<Category>('categories', 'cat-kept')).toEqual(kept);
+  });
+});
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFileStorage } from '../../../src/utils/storage';
+import { Category } from '../../../src/types';
+import { createEmptyDatabase, createTempDirectory, removeTempDirectory } from '../../helpers';
+
+describe('file storage', () => {
+  let directory: string;
+  let journalPath: string;
+
+  beforeEach(() => {
+    directory = createTempDirectory();
+    journalPath = path.join(directory, 'database.ndjson');
+  });
+
+  afterEach(() => {
+    removeTempDirectory(directory);
+  });
+
+  function openStorage() {
+    const database = createEmptyDatabase();
+    const storage = createFileStorage(database, journalPath);
+    storage.open();
+    return { database, storage };
+  }
+
+  it('replays inserts, updates and deletes after a restart', () => {
+    const { storage } = openStorage();
+    const createdAt = new Date('2026-01-02T03:04:05Z');
+    storage.insert<Category>('categories', { id: 'cat-1', name: 'Books', createdAt });
+    storage.insert<Category>('categories', { id: 'cat-2', name: 'Music' });
+    storage.update<Category>('categories', 'cat-1', { name: 'Novels' });
+    storage.delete('categories', 'cat-2');
+
+    const { storage: reopened } = openStorage();
+    const categories = reopened.findAll<Category>('categories');
+    expect(categories).toHaveLength(1);
+    expect(categories[0]).toMatchObject({ id: 'cat-1', name: 'Novels' });
+    expect(categories[0].createdAt).toEqual(createdAt);
+  });
+
+  it('compacts the journal to one line per record on open', () => {
+    const { storage } = openStorage();
+    storage.insert<Category>('categories', { id: 'cat-1', name: 'Books' });
+    storage.update<Category>('categories', 'cat-1', { name: 'Novels' });
+    storage.update<Category>('categories', 'cat-1', { name: 'Poetry' });
+
+    openStorage();
+    const lines = fs.readFileSync(journalPath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).record.name).toBe('Poetry');
+  });
+
+  it('appends a transaction as a single journal line', () => {
+    const { storage } = openStorage();
+    storage.transaction(() => {
+      storage.insert<Category>('categories', { id: 'cat-1', name: 'Books' });
+      storage.insert<Category>('categories', { id: 'cat-2', name: 'Music' });
+    });
+
+    const lines = fs.readFileSync(journalPath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).op).toBe('batch');
+  });
+
+  it('skips a transaction that was cut short as a whole', () => {
+    const { storage } = openStorage();
+    storage.insert<Category>('categories', { id: 'cat-1', name: 'Books' });
+    storage.transaction(() => {
+      storage.insert<Category>('categories', { id: 'cat-2', name: 'Music' });
+      storage.insert<Category>('categories', { id: 'cat-3', name: 'Games' });
+    });
+    const content = fs.readFileSync(journalPath, 'utf8');
+    fs.writeFileSync(journalPath, content.slice(0, content.length - 20));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const { storage: reopened } = openStorage();
+    expect(reopened.findAll<Category>('categories').map(category => category.id)).toEqual(['cat-1']);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('refuses to start when a line before the last one is unreadable', () => {
+    fs.writeFileSync(journalPath, [
+      '{"op":"insert","collection":"categories","id":"cat-1","record":{"id":"cat-1","name":"Books"}}',
+      '{not json',
+      '{"op":"insert","collection":"categories","id":"cat-2","record":{"id":"cat-2","name":"Music"}}'
+    ].join('\n') + '\n');
+    const before = fs.readFileSync(journalPath, 'utf8');
+
+    expect(() => openStorage()).toThrow(/line 2/);
+    expect(fs.readFileSync(journalPath, 'utf8')).toBe(before);
+  });
+});
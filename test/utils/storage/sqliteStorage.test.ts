@@ -0,0 +1,84 @@
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSqliteStorage } from '../../../src/utils/storage';
+import { Category, User } from '../../../src/types';
+import { createEmptyDatabase, createTempDirectory, removeTempDirectory } from '../../helpers';
+
+describe('sqlite storage', () => {
+  let directory: string;
+  let databasePath: string;
+
+  beforeEach(() => {
+    directory = createTempDirectory();
+    databasePath = path.join(directory, 'database.sqlite');
+  });
+
+  afterEach(() => {
+    removeTempDirectory(directory);
+  });
+
+  function openStorage() {
+    const database = createEmptyDatabase();
+    const storage = createSqliteStorage(database, databasePath);
+    storage.migrate();
+    storage.open();
+    return { database, storage };
+  }
+
+  function buildUser(id: string, email: string): User {
+    return { id, email, name: id, password: 'hash', role: 'customer' } as User;
+  }
+
+  it('applies every migration once', () => {
+    const first = createSqliteStorage(createEmptyDatabase(), databasePath);
+    expect(first.migrate().length).toBeGreaterThan(0);
+    const second = createSqliteStorage(createEmptyDatabase(), databasePath);
+    expect(second.migrate()).toEqual([]);
+  });
+
+  it('reloads records with their dates after a restart', () => {
+    const { storage } = openStorage();
+    const createdAt = new Date('2026-01-02T03:04:05Z');
+    storage.insert<Category>('categories', { id: 'cat-1', name: 'Books', createdAt });
+    storage.update<Category>('categories', 'cat-1', { name: 'Novels' });
+    storage.insert<Category>('categories', { id: 'cat-2', name: 'Music' });
+    storage.delete('categories', 'cat-2');
+
+    const { storage: reopened } = openStorage();
+    const categories = reopened.findAll<Category>('categories');
+    expect(categories).toHaveLength(1);
+    expect(categories[0]).toMatchObject({ id: 'cat-1', name: 'Novels', createdAt });
+  });
+
+  it('keeps collection order when records are updated', () => {
+    const { storage } = openStorage();
+    ['cat-1', 'cat-2', 'cat-3'].forEach(id => storage.insert<Category>('categories', { id, name: id }));
+    storage.update<Category>('categories', 'cat-1', { name: 'First' });
+    storage.replace<Category>('categories', { id: 'cat-2', name: 'Second' });
+
+    const { storage: reopened } = openStorage();
+    expect(reopened.findAll<Category>('categories').map(category => category.id)).toEqual(['cat-1', 'cat-2', 'cat-3']);
+  });
+
+  it('leaves memory unchanged when the SQL write fails', () => {
+    const { storage } = openStorage();
+    storage.insert<User>('users', buildUser('user-1', 'one@example.com'));
+    storage.insert<User>('users', buildUser('user-2', 'two@example.com'));
+
+    expect(() => storage.update<User>('users', 'user-2', { email: 'one@example.com' })).toThrow(/UNIQUE/);
+    expect(storage.findById<User>('users', 'user-2')!.email).toBe('two@example.com');
+    expect(() => storage.replace<User>('users', buildUser('user-2', 'one@example.com'))).toThrow(/UNIQUE/);
+    expect(storage.findById<User>('users', 'user-2')!.email).toBe('two@example.com');
+  });
+
+  it('rolls back the SQL writes of a transaction that throws', () => {
+    const { storage } = openStorage();
+    expect(() => storage.transaction(() => {
+      storage.insert<Category>('categories', { id: 'cat-1', name: 'Books' });
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    const { storage: reopened } = openStorage();
+    expect(reopened.findAll<Category>('categories')).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { insertRecord } from '../../src/utils/database';
+import {
+  issueTokenPair,
+  revokeAccessToken,
+  revokeRefreshToken,
+  revokeUserRefreshTokens,
+  rotateRefreshToken,
+  verifyAccessToken
+} from '../../src/utils/tokens';
+import { User } from '../../src/types';
+
+describe('tokens', () => {
+  let user: User;
+
+  beforeAll(() => {
+    vi.stubEnv('JWT_SECRET', 'test-signing-secret');
+    user = insertRecord<User>('users', { id: 'user-1', email: 'one@example.com', name: 'One', password: 'hash', role: 'customer' } as User);
+  });
+
+  it('signs access tokens that verify until they are tampered with', () => {
+    const { token } = issueTokenPair(user);
+
+    expect(verifyAccessToken(token)).toMatchObject({ userId: 'user-1', role: 'customer' });
+    const [header, payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), role: 'admin' })).toString('base64url');
+    expect(verifyAccessToken(`${header}.${forged}.${signature}`)).toBeNull();
+    expect(verifyAccessToken(`${header}.${payload}.${signature.slice(1)}`)).toBeNull();
+  });
+
+  it('rejects revoked access tokens', () => {
+    const { token } = issueTokenPair(user);
+    const payload = verifyAccessToken(token)!;
+
+    revokeAccessToken(payload);
+
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+
+  it('rotates a refresh token into a new pair', () => {
+    const pair = issueTokenPair(user);
+
+    const rotated = rotateRefreshToken(pair.refreshToken);
+
+    expect(rotated.success).toBe(true);
+    expect(rotated.data!.refreshToken).not.toBe(pair.refreshToken);
+    expect(verifyAccessToken(rotated.data!.token)).toMatchObject({ userId: 'user-1' });
+  });
+
+  it('revokes the whole family when a used refresh token is presented again', () => {
+    const pair = issueTokenPair(user);
+    const rotated = rotateRefreshToken(pair.refreshToken);
+
+    expect(rotateRefreshToken(pair.refreshToken)).toEqual({ success: false, message: 'Refresh token has already been used' });
+    expect(rotateRefreshToken(rotated.data!.refreshToken).success).toBe(false);
+  });
+
+  it('rejects refresh tokens with a wrong secret', () => {
+    const pair = issueTokenPair(user);
+    const [id] = pair.refreshToken.split('.');
+
+    expect(rotateRefreshToken(`${id}.not-the-secret`).success).toBe(false);
+    expect(rotateRefreshToken(pair.refreshToken).success).toBe(true);
+  });
+
+  it('revokes refresh tokens on logout and for every session of a user', () => {
+    const loggedOut = issueTokenPair(user);
+    const first = issueTokenPair(user);
+    const second = issueTokenPair(user);
+
+    expect(revokeRefreshToken(loggedOut.refreshToken)).toBe(true);
+    expect(rotateRefreshToken(loggedOut.refreshToken).success).toBe(false);
+
+    revokeUserRefreshTokens(user.id);
+    expect(rotateRefreshToken(first.refreshToken).success).toBe(false);
+    expect(rotateRefreshToken(second.refreshToken).success).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateTotp, generateTotpSecret, verifyTotp } from '../../src/utils/totp';
+
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(1111111109 * 1000));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('matches the RFC 6238 reference codes', () => {
+    expect(generateTotp(RFC_SECRET, 1)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+  });
+
+  it('accepts the current code and one step of drift either way', () => {
+    const step = Math.floor(1111111109 / 30);
+
+    expect(verifyTotp(RFC_SECRET, '081804')).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2))).toBeNull();
+  });
+
+  it('rejects codes at or before the last used step', () => {
+    const step = Math.floor(1111111109 / 30);
+
+    expect(verifyTotp(RFC_SECRET, '081804', step)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), step)).toBe(step + 1);
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '08180')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '081 804')).not.toBeNull();
+  });
+
+  it('generates base32 secrets of 160 bits', () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
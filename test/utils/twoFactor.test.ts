@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { findRecordById, insertRecord } from '../../src/utils/database';
+import { generateTotp } from '../../src/utils/totp';
+import { decryptSecret, encryptSecret } from '../../src/utils/secretBox';
+import { confirmTwoFactorEnrollment, consumeRecoveryCode, startTwoFactorEnrollment, verifyTwoFactorCode } from '../../src/utils/twoFactor';
+import { User } from '../../src/types';
+
+function loadUser(id: string): User {
+  return findRecordById<User>('users', id)!;
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / 30);
+}
+
+describe('two-factor authentication', () => {
+  beforeAll(() => {
+    vi.stubEnv('SECRET_ENCRYPTION_KEY', 'test-encryption-key');
+    insertRecord<User>('users', { id: 'admin-1', email: 'admin@example.com', name: 'Admin', password: 'hash', role: 'admin' } as User);
+  });
+
+  it('encrypts secrets so that tampering is detected', () => {
+    const stored = encryptSecret('JBSWY3DPEHPK3PXP');
+
+    expect(stored).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(decryptSecret(stored)).toBe('JBSWY3DPEHPK3PXP');
+    expect(decryptSecret(stored.slice(0, -2) + (stored.endsWith('A') ? 'BB' : 'AA'))).toBeNull();
+  });
+
+  it('enrolls with a valid code and stores the secret encrypted', () => {
+    const { secret } = startTwoFactorEnrollment(loadUser('admin-1'));
+
+    expect(confirmTwoFactorEnrollment(loadUser('admin-1'), '000000')).toBeNull();
+    const recoveryCodes = confirmTwoFactorEnrollment(loadUser('admin-1'), generateTotp(secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    const user = loadUser('admin-1');
+    expect(user.twoFactorEnabled).toBe(true);
+    expect(user.twoFactorSecret).not.toBe(secret);
+    expect(decryptSecret(user.twoFactorSecret!)).toBe(secret);
+  });
+
+  it('accepts each code once', () => {
+    const secret = decryptSecret(loadUser('admin-1').twoFactorSecret!)!;
+    const nextCode = generateTotp(secret, currentStep() + 1);
+
+    expect(verifyTwoFactorCode(loadUser('admin-1'), nextCode)).toBe(true);
+    expect(verifyTwoFactorCode(loadUser('admin-1'), nextCode)).toBe(false);
+  });
+
+  it('accepts each recovery code once', () => {
+    const { secret } = startTwoFactorEnrollment(loadUser('admin-1'));
+    const [recoveryCode] = confirmTwoFactorEnrollment(loadUser('admin-1'), generateTotp(secret))!;
+
+    expect(consumeRecoveryCode(loadUser('admin-1'), recoveryCode.toUpperCase())).toBe(true);
+    expect(consumeRecoveryCode(loadUser('admin-1'), recoveryCode)).toBe(false);
+  });
+});